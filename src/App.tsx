@@ -5,9 +5,18 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Home from "./pages/Home";
 import RunDetail from "./pages/RunDetail";
+import Compare from "./pages/Compare";
+import Suppressions from "./pages/Suppressions";
+import Dashboard from "./pages/Dashboard";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+// Retries with backoff happen inside src/lib/api.ts, so React Query must not
+// multiply them with its own retry loop.
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { retry: false },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -18,6 +27,9 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Home />} />
           <Route path="/run/:runId" element={<RunDetail />} />
+          <Route path="/compare" element={<Compare />} />
+          <Route path="/suppressions" element={<Suppressions />} />
+          <Route path="/dashboard" element={<Dashboard />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
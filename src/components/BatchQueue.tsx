@@ -0,0 +1,115 @@
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { describeError } from "@/lib/api";
+import { displayName } from "@/lib/files";
+import type { BatchItemStatus, useBatchUpload } from "@/hooks/use-batch-upload";
+import { CheckCircle2, ExternalLink, Loader2, X, XCircle } from "lucide-react";
+
+interface BatchQueueProps {
+  batch: ReturnType<typeof useBatchUpload>;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: "Queued",
+  parsing: "Parsing",
+  uploading: "Uploading",
+  created: "Created",
+  failed: "Failed",
+};
+
+const StatusBadge = ({ status, progress }: { status: BatchItemStatus; progress?: number }) => {
+  if (status === "created") {
+    return (
+      <Badge variant="outline" className="border-primary/40 bg-primary/20 text-primary">
+        <CheckCircle2 className="w-3 h-3 mr-1" />
+        {STATUS_LABELS[status]}
+      </Badge>
+    );
+  }
+  if (status === "failed") {
+    return (
+      <Badge variant="destructive">
+        <XCircle className="w-3 h-3 mr-1" />
+        {STATUS_LABELS[status]}
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="secondary">
+      {status !== "queued" && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+      {STATUS_LABELS[status]}
+      {status === "uploading" && progress !== undefined && ` ${progress}%`}
+    </Badge>
+  );
+};
+
+const BatchQueue = ({ batch }: BatchQueueProps) => {
+  const created = batch.items.filter((item) => item.status === "created");
+  const failed = batch.items.filter((item) => item.status === "failed");
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 p-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm font-medium">
+          {batch.running
+            ? `Processing ${batch.items.length} files (${created.length + failed.length} done)`
+            : `${created.length} of ${batch.items.length} runs created${failed.length > 0 ? `, ${failed.length} failed` : ""}`}
+        </p>
+        {batch.running ? (
+          <Button variant="ghost" size="sm" onClick={batch.cancel}>
+            <X className="w-4 h-4 mr-1" />
+            Cancel
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" onClick={batch.reset}>
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>File</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Details</TableHead>
+            <TableHead className="text-right">Run</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {batch.items.map((item) => (
+            <TableRow key={item.id}>
+              <TableCell className="font-mono text-sm">{displayName(item.file)}</TableCell>
+              <TableCell>
+                <StatusBadge status={item.status} progress={item.progress} />
+              </TableCell>
+              <TableCell className="text-sm">
+                {item.status === "failed" ? (
+                  <span className="text-destructive">{describeError(item.error).description}</span>
+                ) : (
+                  <span className="text-muted-foreground">{item.plan ?? "—"}</span>
+                )}
+              </TableCell>
+              <TableCell className="text-right">
+                {item.runId ? (
+                  <Button variant="ghost" size="sm" asChild className="hover:text-primary hover:bg-primary/10">
+                    <Link to={`/run/${item.runId}`}>
+                      <ExternalLink className="w-4 h-4 mr-1" />
+                      Open
+                    </Link>
+                  </Button>
+                ) : (
+                  <span className="text-muted-foreground">—</span>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default BatchQueue;
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import {
+  CANONICAL_FIELDS,
+  deleteProfile,
+  loadProfiles,
+  missingRequiredFields,
+  saveProfile,
+  suggestMapping,
+  type CanonicalField,
+  type ColumnMapping,
+} from "@/lib/mapping";
+import { Save, Trash2, Wand2 } from "lucide-react";
+
+const NOT_MAPPED = "__none__";
+
+interface ColumnMapperProps {
+  columns: string[];
+  mapping: ColumnMapping;
+  profileName?: string;
+  onChange: (mapping: ColumnMapping, profileName?: string) => void;
+}
+
+const ColumnMapper = ({ columns, mapping, profileName, onChange }: ColumnMapperProps) => {
+  const [profiles, setProfiles] = useState(loadProfiles);
+  const [newProfileName, setNewProfileName] = useState("");
+  const missing = missingRequiredFields(mapping);
+  const suggested = suggestMapping(columns);
+
+  const setField = (field: CanonicalField, column: string) => {
+    const next = { ...mapping };
+    if (column === NOT_MAPPED) {
+      delete next[field];
+    } else {
+      next[field] = column;
+    }
+    onChange(next);
+  };
+
+  const handleApplyProfile = (id: string) => {
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    const available = new Set(columns);
+    const applicable = Object.fromEntries(
+      Object.entries(profile.mapping).filter(([, column]) => available.has(column)),
+    ) as ColumnMapping;
+    onChange(applicable, profile.name);
+  };
+
+  const handleSaveProfile = () => {
+    if (!newProfileName.trim()) return;
+    const profile = saveProfile(newProfileName, mapping);
+    setProfiles(loadProfiles());
+    setNewProfileName("");
+    onChange(mapping, profile.name);
+    toast({ title: `Saved mapping profile "${profile.name}"` });
+  };
+
+  const handleDeleteProfile = () => {
+    const profile = profiles.find((p) => p.name === profileName);
+    if (!profile) return;
+    deleteProfile(profile.id);
+    setProfiles(loadProfiles());
+    onChange(mapping);
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border/50 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="font-medium">Map columns</h3>
+          <p className="text-sm text-muted-foreground">
+            Tell the analyzer which of your columns hold each field.
+            {profileName && <> Using profile <span className="font-medium text-foreground">{profileName}</span>.</>}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {profiles.length > 0 && (
+            <Select value={profiles.find((p) => p.name === profileName)?.id ?? ""} onValueChange={handleApplyProfile}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Apply profile..." />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {profileName && profiles.some((p) => p.name === profileName) && (
+            <Button variant="ghost" size="icon" onClick={handleDeleteProfile} title="Delete profile">
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={() => onChange(suggested)}>
+            <Wand2 className="w-4 h-4 mr-2" />
+            Suggest
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {CANONICAL_FIELDS.map((field) => (
+          <div key={field.key} className="flex items-center gap-3">
+            <span className="w-28 shrink-0 text-sm font-medium">
+              {field.label}
+              {field.required && <span className="text-destructive"> *</span>}
+            </span>
+            <Select value={mapping[field.key] ?? NOT_MAPPED} onValueChange={(value) => setField(field.key, value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_MAPPED}>
+                  <span className="text-muted-foreground">Not mapped</span>
+                </SelectItem>
+                {columns.map((column) => (
+                  <SelectItem key={column} value={column}>
+                    {column}
+                    {suggested[field.key] === column && (
+                      <Badge variant="outline" className="ml-2 text-[10px] py-0">
+                        suggested
+                      </Badge>
+                    )}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      {missing.length > 0 && (
+        <p className="text-sm text-destructive">
+          Map the required field{missing.length !== 1 ? "s" : ""}{" "}
+          {missing.map((key) => CANONICAL_FIELDS.find((f) => f.key === key)?.label).join(", ")} to continue.
+        </p>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder="Save this mapping as..."
+          value={newProfileName}
+          onChange={(e) => setNewProfileName(e.target.value)}
+          className="max-w-xs"
+        />
+        <Button variant="outline" size="sm" onClick={handleSaveProfile} disabled={!newProfileName.trim()}>
+          <Save className="w-4 h-4 mr-2" />
+          Save profile
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMapper;
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ParsedTable } from "@/lib/table";
+import { AlertTriangle, ChevronLeft, ChevronRight } from "lucide-react";
+
+const PAGE_SIZE = 10;
+const PREVIEW_ROWS = 100;
+
+interface DataPreviewProps {
+  /** File name, or a label such as "Pasted JSON". */
+  title: string;
+  /** Format details, e.g. "comma-delimited" or "JSON Lines". */
+  detail: string;
+  parsed: ParsedTable;
+}
+
+const DataPreview = ({ title, detail, parsed }: DataPreviewProps) => {
+  const [page, setPage] = useState(0);
+
+  const previewRecords = parsed.records.slice(0, PREVIEW_ROWS);
+  const pageCount = Math.max(1, Math.ceil(previewRecords.length / PAGE_SIZE));
+  const pageRecords = previewRecords.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+        <span className="font-medium text-foreground">{title}</span>
+        <span>{parsed.records.length.toLocaleString()} rows</span>
+        <span>{parsed.headers.length} columns</span>
+        <span>{detail}</span>
+      </div>
+
+      {parsed.errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>
+            {parsed.errors.length} problem{parsed.errors.length !== 1 ? "s" : ""} found while parsing
+          </AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 space-y-1 font-mono text-xs max-h-40 overflow-y-auto">
+              {parsed.errors.map((error, idx) => (
+                <li key={idx}>
+                  Line {error.line}, column {error.column}: {error.message}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {parsed.columns.length > 0 && (
+        <div className="flex gap-1 flex-wrap">
+          {parsed.columns.map((column, idx) => (
+            <Badge key={idx} variant="outline" className="text-xs bg-primary/10 border-primary/40">
+              <span className="text-foreground">{column.name || "(empty)"}</span>
+              <span className="ml-1 text-muted-foreground">{column.type}</span>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {pageRecords.length > 0 && (
+        <>
+          <div className="overflow-x-auto rounded-md border border-border/50">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  {parsed.headers.map((header, idx) => (
+                    <TableHead key={idx} className="whitespace-nowrap">
+                      {header}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pageRecords.map((record, rowIdx) => (
+                  <TableRow key={rowIdx}>
+                    <TableCell className="font-mono text-xs text-muted-foreground">
+                      {page * PAGE_SIZE + rowIdx + 1}
+                    </TableCell>
+                    {parsed.headers.map((_, colIdx) => (
+                      <TableCell key={colIdx} className="font-mono text-xs whitespace-pre max-w-xs truncate">
+                        {record[colIdx] ?? ""}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {parsed.records.length > PREVIEW_ROWS
+                ? `Previewing the first ${PREVIEW_ROWS} of ${parsed.records.length.toLocaleString()} rows`
+                : `Showing all ${parsed.records.length} rows`}
+            </span>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span>
+                Page {page + 1} of {pageCount}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DataPreview;
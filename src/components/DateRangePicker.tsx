@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import type { DateRange as DayPickerRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { lastDays, toLocalDate, type DateRange } from "@/lib/trends";
+import { CalendarDays } from "lucide-react";
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+const PRESETS = [7, 30, 90];
+
+const toDate = (value: string) => new Date(`${value}T00:00:00`);
+
+const formatRange = ({ from, to }: DateRange) =>
+  from === to ? format(toDate(from), "PP") : `${format(toDate(from), "PP")} – ${format(toDate(to), "PP")}`;
+
+/** A button showing the range, opening two months to pick a new one from, plus common presets. */
+const DateRangePicker = ({ value, onChange }: DateRangePickerProps) => {
+  const [open, setOpen] = useState(false);
+  // The range being picked; the first click only sets its start.
+  const [draft, setDraft] = useState<DayPickerRange | undefined>();
+
+  const select = (range: DateRange) => {
+    onChange(range);
+    setOpen(false);
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setDraft(next ? { from: toDate(value.from), to: toDate(value.to) } : undefined);
+        setOpen(next);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="justify-start font-normal">
+          <CalendarDays className="w-4 h-4 mr-2" />
+          {formatRange(value)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-auto p-0">
+        <div className="flex flex-wrap gap-2 border-b border-border/50 p-3">
+          {PRESETS.map((days) => (
+            <Button key={days} variant="ghost" size="sm" onClick={() => select(lastDays(days))}>
+              Last {days} days
+            </Button>
+          ))}
+        </div>
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          defaultMonth={toDate(value.from)}
+          selected={draft}
+          disabled={{ after: new Date() }}
+          onSelect={(range, day) => {
+            // A click after a complete range starts a new one instead of moving an end.
+            const next = draft?.from && draft?.to ? { from: day, to: undefined } : range;
+            setDraft(next);
+            if (next?.from && next?.to) select({ from: toLocalDate(next.from), to: toLocalDate(next.to) });
+          }}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default DateRangePicker;
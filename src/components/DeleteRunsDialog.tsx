@@ -0,0 +1,40 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { buttonVariants } from "@/components/ui/button";
+
+interface DeleteRunsDialogProps {
+  /** Number of runs to delete; the dialog is open while this is above zero. */
+  count: number;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+}
+
+const DeleteRunsDialog = ({ count, onOpenChange, onConfirm }: DeleteRunsDialogProps) => (
+  <AlertDialog open={count > 0} onOpenChange={onOpenChange}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>{count > 1 ? `Delete ${count} runs?` : "Delete this run?"}</AlertDialogTitle>
+        <AlertDialogDescription>
+          {count > 1 ? "These runs, their findings and uploaded rows" : "The run, its findings and uploaded rows"} will be
+          removed permanently. Archive instead to hide {count > 1 ? "them" : "it"} without losing anything.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Cancel</AlertDialogCancel>
+        <AlertDialogAction onClick={onConfirm} className={buttonVariants({ variant: "destructive" })}>
+          Delete
+        </AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
+
+export default DeleteRunsDialog;
@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import Markdown from "@/components/Markdown";
+import { useRunChat, type ExplanationStream } from "@/hooks/use-run-assistant";
+import { describeError, type Run } from "@/lib/api";
+import { findingHash } from "@/lib/findings";
+import { Loader2, RefreshCw, SendHorizontal, Sparkles, Square, Trash2 } from "lucide-react";
+
+interface ExplanationCardProps {
+  run: Run;
+  /** Owned by the page, so actions outside the card can start an explanation too. */
+  explanation: ExplanationStream;
+}
+
+/** Blinks after streamed text while more is on its way. */
+const Cursor = () => <span className="ml-0.5 inline-block h-4 w-2 animate-pulse bg-accent align-middle" aria-hidden />;
+
+const StreamError = ({ error, onRetry }: { error: unknown; onRetry: () => void }) => (
+  <div className="flex items-center gap-3 text-sm">
+    <span className="text-destructive">{describeError(error).description}</span>
+    <Button variant="outline" size="sm" onClick={onRetry}>
+      <RefreshCw className="w-4 h-4 mr-2" />
+      Retry
+    </Button>
+  </div>
+);
+
+/**
+ * The run's AI explanation, streamed in as it is generated, and a
+ * conversation below it for follow-up questions about the findings.
+ * Runs created with `explain` but without an explanation yet get one
+ * requested as soon as the card is shown.
+ */
+const ExplanationCard = ({ run, explanation }: ExplanationCardProps) => {
+  const location = useLocation();
+  const chat = useRunChat(run.id);
+  const [question, setQuestion] = useState("");
+  const requested = useRef<string | null>(null);
+
+  const { start, status } = explanation;
+  useEffect(() => {
+    if (run.explanation || status !== "idle" || requested.current === run.id) return;
+    requested.current = run.id;
+    start();
+  }, [run.id, run.explanation, status, start]);
+
+  const findingLink = (index: number) => ({ search: location.search, hash: findingHash(index) });
+  const streaming = explanation.status === "streaming";
+  const text = explanation.status === "idle" ? (run.explanation ?? "") : explanation.text;
+  const scope = explanation.status === "idle" ? run.explanationScope : explanation.positions;
+  const answering = chat.pending?.streaming ?? false;
+
+  const submit = () => {
+    const trimmed = question.trim();
+    if (!trimmed || answering) return;
+    setQuestion("");
+    chat.ask(trimmed);
+  };
+
+  return (
+    <Card className="border-accent/40 bg-gradient-to-br from-accent/20 via-accent/10 to-primary/10 shadow-lg shadow-accent/20">
+      <CardHeader className="border-b border-accent/30">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2 bg-gradient-to-r from-accent to-primary bg-clip-text text-transparent">
+              <Sparkles className="w-5 h-5 text-accent" />
+              AI Explanation
+            </CardTitle>
+            <CardDescription>
+              {scope
+                ? `Natural language summary of ${scope.length.toLocaleString()} selected finding${scope.length === 1 ? "" : "s"}`
+                : "Natural language summary of findings"}
+            </CardDescription>
+          </div>
+          {streaming ? (
+            <Button variant="outline" size="sm" onClick={explanation.stop}>
+              <Square className="w-4 h-4 mr-2" />
+              Stop
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => start()}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Regenerate
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        <div aria-live="polite" aria-busy={streaming}>
+          {text ? (
+            <Markdown text={text} findingLink={findingLink} />
+          ) : (
+            streaming && (
+              <p className="flex items-center gap-2 text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Generating explanation...
+              </p>
+            )
+          )}
+          {streaming && text && <Cursor />}
+          {explanation.status === "stopped" && (
+            <p className="mt-2 text-xs text-muted-foreground">Stopped. Regenerate for a complete explanation.</p>
+          )}
+          {explanation.status === "error" && (
+            <StreamError error={explanation.error} onRetry={() => start(explanation.positions)} />
+          )}
+        </div>
+
+        <div className="space-y-4 border-t border-accent/30 pt-6">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-sm font-medium">Ask about these findings</h3>
+            {chat.messages.length > 0 && !chat.pending && (
+              <Button variant="ghost" size="sm" onClick={() => chat.clear.mutate()} disabled={chat.clear.isPending}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Clear conversation
+              </Button>
+            )}
+          </div>
+
+          {chat.isLoading ? (
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          ) : chat.error ? (
+            <p className="text-sm text-destructive">{describeError(chat.error).description}</p>
+          ) : (
+            <div className="space-y-4">
+              {chat.messages.map((message, i) =>
+                message.role === "user" ? (
+                  <p key={i} className="ml-auto w-fit max-w-[80%] whitespace-pre-wrap rounded-lg bg-primary/15 px-3 py-2 text-sm">
+                    {message.content}
+                  </p>
+                ) : (
+                  <Markdown key={i} text={message.content} findingLink={findingLink} />
+                ),
+              )}
+              {chat.pending && (
+                <>
+                  <p className="ml-auto w-fit max-w-[80%] whitespace-pre-wrap rounded-lg bg-primary/15 px-3 py-2 text-sm">
+                    {chat.pending.question}
+                  </p>
+                  <div aria-live="polite">
+                    {chat.pending.answer && <Markdown text={chat.pending.answer} findingLink={findingLink} />}
+                    {chat.pending.streaming &&
+                      (chat.pending.answer ? <Cursor /> : <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />)}
+                    {chat.pending.error !== undefined && (
+                      <StreamError error={chat.pending.error} onRetry={() => chat.pending && chat.ask(chat.pending.question)} />
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          <form
+            className="flex items-end gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              submit();
+            }}
+          >
+            <Textarea
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              onKeyDown={(e) => {
+                // Enter sends; Shift+Enter starts a new line.
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  submit();
+                }
+              }}
+              placeholder="e.g. Which cost spikes should I look at first?"
+              aria-label="Question about this run"
+              rows={1}
+              className="min-h-10 resize-none bg-background/60"
+            />
+            {answering ? (
+              <Button type="button" variant="outline" onClick={() => setQuestion(chat.stop() ?? question)}>
+                <Square className="w-4 h-4 mr-2" />
+                Stop
+              </Button>
+            ) : (
+              <Button type="submit" disabled={!question.trim()}>
+                <SendHorizontal className="w-4 h-4 mr-2" />
+                Ask
+              </Button>
+            )}
+          </form>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExplanationCard;
@@ -0,0 +1,72 @@
+import { useRef, useState, type DragEvent } from "react";
+import { cn } from "@/lib/utils";
+import { Upload } from "lucide-react";
+
+interface FileDropZoneProps {
+  accept: string;
+  disabled?: boolean;
+  onFiles: (files: File[]) => void;
+}
+
+const FileDropZone = ({ accept, disabled, onFiles }: FileDropZoneProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const handleDragOver = (event: DragEvent) => {
+    event.preventDefault();
+    if (!disabled) setDragging(true);
+  };
+
+  const handleDrop = (event: DragEvent) => {
+    event.preventDefault();
+    setDragging(false);
+    if (disabled) return;
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length > 0) onFiles(files);
+  };
+
+  return (
+    <div
+      role="button"
+      tabIndex={disabled ? -1 : 0}
+      aria-disabled={disabled}
+      onClick={() => !disabled && inputRef.current?.click()}
+      onKeyDown={(event) => {
+        if (!disabled && (event.key === "Enter" || event.key === " ")) {
+          event.preventDefault();
+          inputRef.current?.click();
+        }
+      }}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      className={cn(
+        "flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-border/70 px-6 py-8 text-center transition-colors",
+        "cursor-pointer hover:border-primary/60 hover:bg-primary/5 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+        dragging && "border-primary bg-primary/10",
+        disabled && "cursor-not-allowed opacity-50 hover:border-border/70 hover:bg-transparent",
+      )}
+    >
+      <Upload className="w-6 h-6 text-muted-foreground" />
+      <p className="text-sm font-medium">Drop files here or click to browse</p>
+      <p className="text-xs text-muted-foreground">
+        One file opens a preview; several files each become their own run
+      </p>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept}
+        multiple
+        className="hidden"
+        onChange={(event) => {
+          const files = Array.from(event.target.files ?? []);
+          // Let the same file be picked again after a failed attempt.
+          event.target.value = "";
+          if (files.length > 0) onFiles(files);
+        }}
+      />
+    </div>
+  );
+};
+
+export default FileDropZone;
@@ -0,0 +1,225 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { getRunCosts, type Finding } from "@/lib/api";
+import { countByField, countByType, type FindingFilters } from "@/lib/finding-filters";
+import { Loader2 } from "lucide-react";
+
+interface FindingsChartsProps {
+  runId: string;
+  /** The findings the table can show, before its own filters. */
+  findings: Finding[];
+  filters: FindingFilters;
+  onFilter: (filters: FindingFilters) => void;
+}
+
+type Breakdown = "service" | "account_id";
+
+/** Only the most frequent values get a bar; the type chips above the table list them all. */
+const MAX_BARS = 10;
+
+const typeConfig = {
+  count: { label: "Findings", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const costConfig = {
+  cost: { label: "Cost", color: "hsl(var(--primary))" },
+  findings: { label: "Findings", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+const breakdownConfig = {
+  count: { label: "Findings", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+const ChartCard = ({ title, children, action }: { title: string; children: React.ReactNode; action?: React.ReactNode }) => (
+  <div className="rounded-lg border border-border/50 p-4 space-y-3">
+    <div className="flex items-center justify-between gap-2 min-h-8">
+      <h3 className="text-sm font-medium">{title}</h3>
+      {action}
+    </div>
+    {children}
+  </div>
+);
+
+interface DayPoint {
+  date: string;
+  cost: number;
+  findings: number;
+}
+
+/** A selected bar stays bright; with one selected, the others dim. */
+const opacity = (active: boolean, anyActive: boolean) => (anyActive && !active ? 0.35 : 1);
+
+/**
+ * Charts above the findings table. Clicking a bar or a flagged day filters
+ * the table to it; clicking it again removes that filter.
+ */
+const FindingsCharts = ({ runId, findings, filters, onFilter }: FindingsChartsProps) => {
+  const [breakdown, setBreakdown] = useState<Breakdown>("service");
+
+  const costs = useQuery({
+    queryKey: ["run", runId, "costs"],
+    queryFn: ({ signal }) => getRunCosts(runId, signal),
+  });
+
+  const byType = useMemo(
+    () => countByType(findings).slice(0, MAX_BARS).map(([type, count]) => ({ type, count })),
+    [findings],
+  );
+  const byBreakdown = useMemo(
+    () => countByField(findings, breakdown).slice(0, MAX_BARS).map(([value, count]) => ({ value, count })),
+    [findings, breakdown],
+  );
+  const byDay = useMemo(() => {
+    const flagged = new Map(countByField(findings, "date"));
+    return (costs.data?.days ?? []).map((day): DayPoint => ({
+      date: day.date,
+      cost: day.cost,
+      findings: flagged.get(day.date) ?? 0,
+    }));
+  }, [costs.data, findings]);
+
+  const breakdownFilter = breakdown === "service" ? filters.service : filters.account;
+  const toggleType = (type: string) => {
+    const types = filters.types ?? [];
+    const next = types.includes(type) ? types.filter((t) => t !== type) : [...types, type];
+    onFilter({ ...filters, types: next.length > 0 ? next : undefined });
+  };
+  const toggleBreakdown = (value: string) => {
+    const next = breakdownFilter === value ? undefined : value;
+    onFilter(breakdown === "service" ? { ...filters, service: next } : { ...filters, account: next });
+  };
+  const toggleDate = (date: string) => onFilter({ ...filters, date: filters.date === date ? undefined : date });
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <div className="lg:col-span-2">
+        <ChartCard title="Cost by day">
+          {costs.isLoading ? (
+            <div className="flex h-48 items-center justify-center">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : byDay.length === 0 ? (
+            <p className="flex h-48 items-center justify-center text-sm text-muted-foreground">
+              {costs.error ? "Daily costs could not be loaded" : "The rows have no date and cost to chart"}
+            </p>
+          ) : (
+            <ChartContainer config={costConfig} className="aspect-auto h-48 w-full">
+              <LineChart data={byDay} margin={{ left: 8, right: 8, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={56} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line
+                  dataKey="cost"
+                  type="monotone"
+                  stroke="var(--color-cost)"
+                  strokeWidth={2}
+                  isAnimationActive={false}
+                  // Days with findings get a point, larger with more findings.
+                  dot={({ key, cx, cy, payload }: { key?: string; cx: number; cy: number; payload: DayPoint }) =>
+                    payload.findings > 0 ? (
+                      <circle
+                        key={key}
+                        cx={cx}
+                        cy={cy}
+                        r={3 + Math.min(payload.findings, 5)}
+                        fill="var(--color-findings)"
+                        fillOpacity={opacity(filters.date === payload.date, !!filters.date)}
+                        className="cursor-pointer"
+                        onClick={() => toggleDate(payload.date)}
+                      >
+                        <title>
+                          {payload.findings} finding{payload.findings === 1 ? "" : "s"} on {payload.date}
+                        </title>
+                      </circle>
+                    ) : (
+                      <g key={key} />
+                    )
+                  }
+                />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </ChartCard>
+      </div>
+
+      <ChartCard title="Findings by type">
+        <ChartContainer config={typeConfig} className="aspect-auto h-56 w-full">
+          <BarChart data={byType} layout="vertical" margin={{ left: 8, right: 8 }}>
+            <CartesianGrid horizontal={false} />
+            <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+            <YAxis type="category" dataKey="type" tickLine={false} axisLine={false} width={120} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar
+              dataKey="count"
+              radius={4}
+              className="cursor-pointer"
+              onClick={(entry: { type: string }) => toggleType(entry.type)}
+            >
+              {byType.map((entry) => (
+                <Cell
+                  key={entry.type}
+                  fill="var(--color-count)"
+                  fillOpacity={opacity(!!filters.types?.includes(entry.type), !!filters.types)}
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <ChartCard
+        title={breakdown === "service" ? "Findings by service" : "Findings by account"}
+        action={
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={breakdown}
+            onValueChange={(value) => value && setBreakdown(value as Breakdown)}
+          >
+            <ToggleGroupItem value="service" className="h-8 text-xs">
+              Service
+            </ToggleGroupItem>
+            <ToggleGroupItem value="account_id" className="h-8 text-xs">
+              Account
+            </ToggleGroupItem>
+          </ToggleGroup>
+        }
+      >
+        {byBreakdown.length === 0 ? (
+          <p className="flex h-56 items-center justify-center text-sm text-muted-foreground">
+            No findings have a {breakdown === "service" ? "service" : "account"}
+          </p>
+        ) : (
+          <ChartContainer config={breakdownConfig} className="aspect-auto h-56 w-full">
+            <BarChart data={byBreakdown} layout="vertical" margin={{ left: 8, right: 8 }}>
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+              <YAxis type="category" dataKey="value" tickLine={false} axisLine={false} width={120} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar
+                dataKey="count"
+                radius={4}
+                className="cursor-pointer"
+                onClick={(entry: { value: string }) => toggleBreakdown(entry.value)}
+              >
+                {byBreakdown.map((entry) => (
+                  <Cell
+                    key={entry.value}
+                    fill="var(--color-count)"
+                    fillOpacity={opacity(breakdownFilter === entry.value, !!breakdownFilter)}
+                  />
+                ))}
+              </Bar>
+            </BarChart>
+          </ChartContainer>
+        )}
+      </ChartCard>
+    </div>
+  );
+};
+
+export default FindingsCharts;
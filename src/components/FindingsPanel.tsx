@@ -0,0 +1,544 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useLocation, useSearchParams } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { TableCell, TableHead, TableRow } from "@/components/ui/table";
+import FindingsCharts from "@/components/FindingsCharts";
+import RowInspector from "@/components/RowInspector";
+import SearchInput from "@/components/SearchInput";
+import SortableHead from "@/components/SortableHead";
+import SuppressionDialog from "@/components/SuppressionDialog";
+import { AssigneeInput, NotesButton, StatusSelect } from "@/components/TriageControls";
+import VirtualTable from "@/components/VirtualTable";
+import { useFindingTriage } from "@/hooks/use-finding-triage";
+import { useSuppressionMutations } from "@/hooks/use-suppressions";
+import { toast } from "@/hooks/use-toast";
+import {
+  countByType,
+  filterFindings,
+  parseFindingFilters,
+  writeFindingFilters,
+  type FindingFilters,
+  type FindingSortField,
+  type IndexedFinding,
+} from "@/lib/finding-filters";
+import type { Finding, FindingStatus, FindingUpdate, Row } from "@/lib/api";
+import { findingImpact, formatMoney, formatTotals, impactByType, parseFindingHash } from "@/lib/findings";
+import { FINDING_STATUSES } from "@/lib/schemas";
+import { draftFromFinding, isSuppressed, type SuppressionDraft } from "@/lib/suppressions";
+import { findingStatus, STATUS_LABELS } from "@/lib/triage";
+import { cn } from "@/lib/utils";
+import { BellOff, ChevronDown, ChevronRight, PanelRightOpen, Sparkles, X } from "lucide-react";
+
+interface FindingsPanelProps {
+  runId: string;
+  findings: Finding[];
+  /** Asks for an explanation of just these findings, by position. */
+  onExplain?: (positions: number[]) => void;
+}
+
+type ListItem =
+  | { kind: "group"; type: string; count: number; collapsed: boolean }
+  | { kind: "finding"; item: IndexedFinding };
+
+/** One line of the row; the full row opens in the inspector. */
+const RowData = ({ row, onInspect }: { row?: Row | null; onInspect: () => void }) => {
+  if (!row) return <span className="text-muted-foreground">—</span>;
+  return (
+    <button
+      type="button"
+      onClick={onInspect}
+      className="flex w-full items-center gap-1 text-left text-xs font-mono text-muted-foreground hover:text-foreground"
+    >
+      <PanelRightOpen className="w-3 h-3 shrink-0" />
+      <span className="truncate">{JSON.stringify(row)}</span>
+    </button>
+  );
+};
+
+const ImpactCell = ({ finding }: { finding: Finding }) => {
+  const impact = findingImpact(finding);
+  if (!impact) return <span className="text-muted-foreground">—</span>;
+  return (
+    <span title={finding.impact === undefined || finding.impact === null ? "Cost of the row" : "Estimated impact"}>
+      {formatMoney(impact.amount, impact.currency)}
+    </span>
+  );
+};
+
+/** Keeps sorting, grouping and "show suppressed", dropping everything that narrows the table. */
+const withoutFilters = (filters: FindingFilters): FindingFilters => ({
+  ...filters,
+  types: undefined,
+  q: undefined,
+  status: undefined,
+  date: undefined,
+  account: undefined,
+  service: undefined,
+});
+
+/** Clicks on these inside a row act on the control, not open the inspector. */
+const INTERACTIVE = "button, a, input, textarea, label, [role=checkbox], [role=combobox]";
+
+const FindingsPanel = ({ runId, findings, onExplain }: FindingsPanelProps) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseFindingFilters(searchParams), [searchParams]);
+  const setFilters = useCallback(
+    (next: FindingFilters) => setSearchParams((prev) => writeFindingFilters(next, prev), { replace: true }),
+    [setSearchParams],
+  );
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [inspected, setInspected] = useState<number | null>(null);
+  // The finding a `#finding-12` link pointed at, and the one still waiting to be scrolled to.
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+  const [scrollTarget, setScrollTarget] = useState<number | null>(null);
+  const clearScrollTarget = useCallback(() => setScrollTarget(null), []);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [bulkAssignee, setBulkAssignee] = useState("");
+  const [suppressing, setSuppressing] = useState<SuppressionDraft | null>(null);
+  const triage = useFindingTriage(runId);
+  const { create: createSuppression } = useSuppressionMutations();
+
+  const suppressedCount = useMemo(() => findings.filter(isSuppressed).length, [findings]);
+  // What chips and charts summarize: everything the table could show before its other filters.
+  const shown = useMemo(
+    () => (filters.showSuppressed ? findings : findings.filter((finding) => !isSuppressed(finding))),
+    [findings, filters.showSuppressed],
+  );
+  const typeCounts = useMemo(() => countByType(shown), [shown]);
+  // Formatted impact total of each type; empty for types without amounts.
+  const typeTotals = useMemo(
+    () => new Map([...impactByType(shown)].map(([type, amounts]) => [type, formatTotals(amounts)])),
+    [shown],
+  );
+  const visible = useMemo(() => filterFindings(findings, filters), [findings, filters]);
+
+  // One flat list with a header before each group keeps grouped and plain
+  // views in a single table.
+  const items = useMemo((): ListItem[] => {
+    if (!filters.groupByType) return visible.map((item) => ({ kind: "finding", item }));
+    const groups = new Map<string, IndexedFinding[]>();
+    visible.forEach((item) => {
+      const group = groups.get(item.finding.type);
+      if (group) group.push(item);
+      else groups.set(item.finding.type, [item]);
+    });
+    const order = typeCounts.map(([type]) => type).filter((type) => groups.has(type));
+    return order.flatMap((type): ListItem[] => {
+      const group = groups.get(type);
+      const isCollapsed = collapsed.has(type);
+      return [
+        { kind: "group", type, count: group.length, collapsed: isCollapsed },
+        ...(isCollapsed ? [] : group.map((item): ListItem => ({ kind: "finding", item }))),
+      ];
+    });
+  }, [visible, filters.groupByType, typeCounts, collapsed]);
+
+  const tableOrder = useMemo(() => items.flatMap((entry) => (entry.kind === "finding" ? [entry.item] : [])), [items]);
+  const scrollIndex =
+    scrollTarget === null
+      ? -1
+      : items.findIndex((entry) => entry.kind === "finding" && entry.item.position === scrollTarget);
+
+  // Follows references from the explanation: reveals the finding, even if the
+  // filters hide it, then scrolls to and highlights it.
+  const location = useLocation();
+  const linked = parseFindingHash(location.hash);
+  useEffect(() => {
+    if (linked === null) return;
+    const position = findings.findIndex((finding, i) => (finding.index ?? i) === linked);
+    // Writing the filters also drops the hash, so following the same reference again works.
+    if (position === -1) {
+      toast({ title: `Finding ${linked} is not in this run`, variant: "destructive" });
+      setFilters(filters);
+      return;
+    }
+    const finding = findings[position];
+    const hidden = !visible.some((item) => item.position === position);
+    setCollapsed((prev) => {
+      if (!prev.has(finding.type)) return prev;
+      const next = new Set(prev);
+      next.delete(finding.type);
+      return next;
+    });
+    setHighlighted(position);
+    setScrollTarget(position);
+    setFilters(
+      hidden ? { ...withoutFilters(filters), showSuppressed: isSuppressed(finding) || filters.showSuppressed } : filters,
+    );
+  }, [linked, findings, visible, filters, setFilters]);
+
+  // Only findings on screen count as selected, so a changed filter cannot act on hidden ones.
+  const selectedVisible = useMemo(() => visible.filter((item) => selected.has(item.position)), [visible, selected]);
+  const allSelected = selectedVisible.length === visible.length && visible.length > 0;
+
+  const toggleSelected = (position: number, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(position);
+      else next.delete(position);
+      return next;
+    });
+  };
+
+  const applyTriage = (positions: number[], update: FindingUpdate) => {
+    if (positions.length > 0) triage.mutate({ positions, update });
+  };
+
+  const applyToSelected = (update: FindingUpdate) => {
+    applyTriage(
+      selectedVisible.map((item) => item.position),
+      update,
+    );
+    setSelected(new Set());
+  };
+
+  const toggleType = (type: string) => {
+    const types = filters.types ?? [];
+    const next = types.includes(type) ? types.filter((t) => t !== type) : [...types, type];
+    setFilters({ ...filters, types: next.length > 0 ? next : undefined });
+  };
+
+  const toggleGroup = (type: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(type)) next.delete(type);
+      else next.add(type);
+      return next;
+    });
+  };
+
+  const sort = filters.sort ?? "index";
+  const order = filters.order ?? "asc";
+  const handleSort = (field: FindingSortField) => {
+    // Impact starts with the most expensive findings; other columns start ascending.
+    const first = field === "impact" ? "desc" : "asc";
+    const flipped = first === "asc" ? "desc" : "asc";
+    setFilters({ ...filters, sort: field, order: field === sort && order === first ? flipped : first });
+  };
+
+  const rowFilters = [
+    { key: "date", label: "Date", value: filters.date },
+    { key: "account", label: "Account", value: filters.account },
+    { key: "service", label: "Service", value: filters.service },
+  ] as const;
+  const isFiltered =
+    !!filters.types || !!filters.q || !!filters.status || rowFilters.some((filter) => filter.value !== undefined);
+
+  if (findings.length === 0) {
+    return <p className="text-center py-8 text-muted-foreground">No findings</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <FindingsCharts runId={runId} findings={shown} filters={filters} onFilter={setFilters} />
+
+      <div className="flex flex-wrap items-center gap-3">
+        <SearchInput
+          value={filters.q ?? ""}
+          onChange={(q) => setFilters({ ...filters, q: q || undefined })}
+          placeholder="Search reasons and row values..."
+          className="flex-1 min-w-[220px]"
+        />
+        <Select
+          value={filters.status ?? "all"}
+          onValueChange={(value) => setFilters({ ...filters, status: value === "all" ? undefined : (value as FindingStatus) })}
+        >
+          <SelectTrigger className="w-44" aria-label="Filter by status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {FINDING_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {suppressedCount > 0 && (
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Switch
+              checked={filters.showSuppressed ?? false}
+              onCheckedChange={(checked) => setFilters({ ...filters, showSuppressed: checked || undefined })}
+            />
+            Show suppressed ({suppressedCount.toLocaleString()})
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Switch
+            checked={filters.groupByType ?? false}
+            onCheckedChange={(checked) => setFilters({ ...filters, groupByType: checked || undefined })}
+          />
+          Group by type
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {typeCounts.map(([type, count]) => {
+          const active = filters.types?.includes(type) ?? false;
+          return (
+            <button key={type} type="button" onClick={() => toggleType(type)} aria-pressed={active}>
+              <Badge
+                variant="outline"
+                className={cn(
+                  "cursor-pointer",
+                  active ? "bg-primary/20 border-primary/60 text-primary" : "hover:border-primary/40",
+                )}
+              >
+                {type}
+                <span className="ml-1.5 text-muted-foreground">{count.toLocaleString()}</span>
+                {typeTotals.get(type) && <span className="ml-1.5 text-muted-foreground">· {typeTotals.get(type)}</span>}
+              </Badge>
+            </button>
+          );
+        })}
+        {rowFilters.map(
+          (filter) =>
+            filter.value !== undefined && (
+              <Badge key={filter.key} variant="outline" className="bg-accent/10 border-accent/50 gap-1">
+                {filter.label}: {filter.value}
+                <button
+                  type="button"
+                  onClick={() => setFilters({ ...filters, [filter.key]: undefined })}
+                  aria-label={`Remove ${filter.label.toLowerCase()} filter`}
+                  className="hover:text-foreground"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ),
+        )}
+        {isFiltered && (
+          <>
+            <span className="text-sm text-muted-foreground ml-auto">
+              {visible.length.toLocaleString()} of {findings.length.toLocaleString()} shown
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setFilters(withoutFilters(filters))}
+            >
+              <X className="w-4 h-4 mr-1" />
+              Clear filters
+            </Button>
+          </>
+        )}
+      </div>
+
+      {selectedVisible.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border border-primary/30 bg-primary/5 px-4 py-2">
+          <span className="text-sm font-medium mr-auto">{selectedVisible.length.toLocaleString()} selected</span>
+          <Select value="" onValueChange={(status) => applyToSelected({ status: status as FindingStatus })}>
+            <SelectTrigger className="h-8 w-44 text-xs" aria-label="Set status">
+              <SelectValue placeholder="Set status..." />
+            </SelectTrigger>
+            <SelectContent>
+              {FINDING_STATUSES.map((status) => (
+                <SelectItem key={status} value={status} className="text-xs">
+                  {STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              applyToSelected({ assignee: bulkAssignee.trim() || null });
+              setBulkAssignee("");
+            }}
+          >
+            <Input
+              value={bulkAssignee}
+              onChange={(e) => setBulkAssignee(e.target.value)}
+              placeholder="Assignee"
+              aria-label="Assign selected findings to"
+              className="h-8 w-36 text-xs"
+            />
+            <Button type="submit" variant="outline" size="sm">
+              {bulkAssignee.trim() ? "Assign" : "Unassign"}
+            </Button>
+          </form>
+          {onExplain && (
+            <Button variant="outline" size="sm" onClick={() => onExplain(selectedVisible.map((item) => item.position))}>
+              <Sparkles className="w-4 h-4 mr-2" />
+              Explain selected
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => setSelected(new Set())}>
+            Clear selection
+          </Button>
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <p className="text-center py-8 text-muted-foreground">
+          {isFiltered ? "No findings match these filters" : "All findings are suppressed"}
+        </p>
+      ) : (
+        <VirtualTable
+          items={items}
+          estimateSize={(entry) => (entry.kind === "group" ? 41 : 57)}
+          getKey={(entry) => (entry.kind === "group" ? `group-${entry.type}` : entry.item.position)}
+          resetKey={writeFindingFilters(filters).toString()}
+          scrollToIndex={scrollIndex === -1 ? undefined : scrollIndex}
+          onScrolledTo={clearScrollTarget}
+          header={
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allSelected ? true : selectedVisible.length > 0 ? "indeterminate" : false}
+                  onCheckedChange={(checked) =>
+                    setSelected(checked === true ? new Set(visible.map((item) => item.position)) : new Set())
+                  }
+                  aria-label="Select all findings"
+                />
+              </TableHead>
+              <SortableHead
+                label="Index"
+                direction={sort === "index" ? order : undefined}
+                onSort={() => handleSort("index")}
+                className="w-20"
+              />
+              <SortableHead
+                label="Type"
+                direction={sort === "type" ? order : undefined}
+                onSort={() => handleSort("type")}
+                className="w-40"
+              />
+              <SortableHead
+                label="Reason"
+                direction={sort === "reason" ? order : undefined}
+                onSort={() => handleSort("reason")}
+              />
+              <SortableHead
+                label="Impact"
+                direction={sort === "impact" ? order : undefined}
+                onSort={() => handleSort("impact")}
+                className="w-32 text-right"
+              />
+              <TableHead className="w-40">Status</TableHead>
+              <TableHead className="w-36">Assignee</TableHead>
+              <TableHead className="w-20">
+                <span className="sr-only">Notes and actions</span>
+              </TableHead>
+              <TableHead className="w-[20%]">Row Data</TableHead>
+            </TableRow>
+          }
+          renderRow={(entry, rowProps) =>
+            entry.kind === "group" ? (
+              <TableRow key={`group-${entry.type}`} {...rowProps} className="bg-muted/30 hover:bg-muted/50">
+                <TableCell colSpan={9} className="py-2">
+                  <button
+                    type="button"
+                    onClick={() => toggleGroup(entry.type)}
+                    aria-expanded={!entry.collapsed}
+                    className="flex items-center gap-2 font-medium"
+                  >
+                    {entry.collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                    {entry.type}
+                    <Badge variant="secondary">{entry.count.toLocaleString()}</Badge>
+                    {typeTotals.get(entry.type) && (
+                      <span className="text-sm font-normal text-muted-foreground">{typeTotals.get(entry.type)}</span>
+                    )}
+                  </button>
+                </TableCell>
+              </TableRow>
+            ) : (
+              <TableRow
+                key={entry.item.position}
+                {...rowProps}
+                data-state={selected.has(entry.item.position) ? "selected" : undefined}
+                onClick={(e) => {
+                  if (!(e.target as HTMLElement).closest(INTERACTIVE)) setInspected(entry.item.position);
+                }}
+                className={cn(
+                  "cursor-pointer",
+                  inspected === entry.item.position && "bg-muted/50",
+                  highlighted === entry.item.position && "bg-accent/15 hover:bg-accent/25",
+                )}
+              >
+                <TableCell className="align-top">
+                  <Checkbox
+                    checked={selected.has(entry.item.position)}
+                    onCheckedChange={(checked) => toggleSelected(entry.item.position, checked === true)}
+                    aria-label={`Select finding ${entry.item.finding.index ?? entry.item.position}`}
+                  />
+                </TableCell>
+                <TableCell className="font-mono text-sm align-top">
+                  {entry.item.finding.index ?? entry.item.position}
+                </TableCell>
+                <TableCell className="font-medium align-top">
+                  {entry.item.finding.type}
+                  {isSuppressed(entry.item.finding) && (
+                    <Link to="/suppressions" className="block">
+                      <Badge variant="secondary" className="mt-1 font-normal">
+                        <BellOff className="w-3 h-3 mr-1" />
+                        Suppressed
+                      </Badge>
+                    </Link>
+                  )}
+                </TableCell>
+                <TableCell className="align-top">{entry.item.finding.reason}</TableCell>
+                <TableCell className="align-top text-right font-mono text-sm whitespace-nowrap">
+                  <ImpactCell finding={entry.item.finding} />
+                </TableCell>
+                <TableCell className="align-top">
+                  <StatusSelect
+                    value={findingStatus(entry.item.finding)}
+                    onChange={(status) => applyTriage([entry.item.position], { status })}
+                  />
+                </TableCell>
+                <TableCell className="align-top">
+                  <AssigneeInput
+                    value={entry.item.finding.assignee ?? ""}
+                    onChange={(assignee) => applyTriage([entry.item.position], { assignee })}
+                  />
+                </TableCell>
+                <TableCell className="align-top">
+                  <div className="flex">
+                    <NotesButton
+                      value={entry.item.finding.notes ?? ""}
+                      onChange={(notes) => applyTriage([entry.item.position], { notes })}
+                    />
+                    {!isSuppressed(entry.item.finding) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 px-2"
+                        onClick={() => setSuppressing(draftFromFinding(entry.item.finding))}
+                        aria-label="Suppress similar findings"
+                        title="Suppress similar findings"
+                      >
+                        <BellOff className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell className="align-top max-w-0">
+                  <RowData row={entry.item.finding.row} onInspect={() => setInspected(entry.item.position)} />
+                </TableCell>
+              </TableRow>
+            )
+          }
+        />
+      )}
+
+      <RowInspector items={tableOrder} position={inspected} onNavigate={setInspected} />
+
+      <SuppressionDialog
+        draft={suppressing}
+        findings={findings}
+        onOpenChange={(open) => !open && setSuppressing(null)}
+        onSave={(input) => createSuppression.mutate(input)}
+      />
+    </div>
+  );
+};
+
+export default FindingsPanel;
@@ -0,0 +1,56 @@
+import ColumnMapper from "@/components/ColumnMapper";
+import { Button } from "@/components/ui/button";
+import type { ImportPlan } from "@/hooks/use-import-plan";
+import { CANONICAL_FIELDS } from "@/lib/mapping";
+import { CheckCircle2 } from "lucide-react";
+
+interface ImportSetupProps {
+  columns: string[];
+  plan: ImportPlan;
+}
+
+/**
+ * Second step of the new-run flow: either confirms the detected provider
+ * format or lets the user map columns by hand.
+ */
+const ImportSetup = ({ columns, plan }: ImportSetupProps) => {
+  const { format, manual, setManual, mapping } = plan;
+
+  if (format && !manual) {
+    return (
+      <div className="flex flex-wrap items-start justify-between gap-3 rounded-lg border border-primary/40 bg-primary/10 p-4">
+        <div className="flex gap-3">
+          <CheckCircle2 className="w-5 h-5 mt-0.5 text-primary shrink-0" />
+          <div>
+            <h3 className="font-medium">Detected {format.label}</h3>
+            <p className="text-sm text-muted-foreground">
+              Rows will be normalized to {CANONICAL_FIELDS.map((field) => field.label.toLowerCase()).join(", ")}.
+              Other columns are dropped.
+            </p>
+          </div>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => setManual(true)}>
+          Map columns manually
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {format && (
+        <Button variant="link" size="sm" className="px-0" onClick={() => setManual(false)}>
+          Use detected {format.label} format instead
+        </Button>
+      )}
+      <ColumnMapper
+        columns={columns}
+        mapping={mapping.mapping}
+        profileName={mapping.profileName}
+        onChange={mapping.setMapping}
+      />
+    </div>
+  );
+};
+
+export default ImportSetup;
@@ -0,0 +1,122 @@
+import { Fragment, useMemo, type ReactNode } from "react";
+import { Link, type To } from "react-router-dom";
+import { parseMarkdown, type Block, type Inline } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+
+interface MarkdownProps {
+  text: string;
+  /** Where a `[finding 12]` reference links to; without it references stay plain text. */
+  findingLink?: (index: number) => To;
+  className?: string;
+}
+
+const renderInline = (nodes: Inline[], findingLink: MarkdownProps["findingLink"]): ReactNode =>
+  nodes.map((node, i) => {
+    switch (node.kind) {
+      case "text":
+        return <Fragment key={i}>{node.text}</Fragment>;
+      case "code":
+        return <code key={i}>{node.text}</code>;
+      case "strong":
+        return <strong key={i}>{renderInline(node.children, findingLink)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(node.children, findingLink)}</em>;
+      case "link":
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer">
+            {renderInline(node.children, findingLink)}
+          </a>
+        );
+      case "finding":
+        return findingLink ? (
+          <Link
+            key={i}
+            to={findingLink(node.index)}
+            className="rounded bg-accent/15 px-1 font-mono text-[0.9em] no-underline hover:bg-accent/30"
+            title={`Show finding ${node.index} in the table`}
+          >
+            {node.text}
+          </Link>
+        ) : (
+          <Fragment key={i}>[{node.text}]</Fragment>
+        );
+    }
+  });
+
+const renderBlocks = (blocks: Block[], findingLink: MarkdownProps["findingLink"]): ReactNode =>
+  blocks.map((block, i) => {
+    switch (block.kind) {
+      case "heading": {
+        // Headings start at h3 so they sit below the card's own title.
+        const Tag = `h${Math.min(block.level + 2, 6)}` as "h3";
+        return <Tag key={i}>{renderInline(block.children, findingLink)}</Tag>;
+      }
+      case "paragraph":
+        return <p key={i}>{renderInline(block.children, findingLink)}</p>;
+      case "code":
+        return (
+          <pre key={i}>
+            <code>{block.text}</code>
+          </pre>
+        );
+      case "quote":
+        return <blockquote key={i}>{renderBlocks(block.children, findingLink)}</blockquote>;
+      case "list": {
+        const items = block.items.map((item, j) => (
+          <li key={j}>
+            {/* A single paragraph item renders inline, as in a tight list. */}
+            {item.length === 1 && item[0].kind === "paragraph"
+              ? renderInline(item[0].children, findingLink)
+              : renderBlocks(item, findingLink)}
+          </li>
+        ));
+        return block.ordered ? (
+          <ol key={i} start={block.start}>
+            {items}
+          </ol>
+        ) : (
+          <ul key={i}>{items}</ul>
+        );
+      }
+      case "table":
+        return (
+          <div key={i} className="overflow-x-auto">
+            <table>
+              <thead>
+                <tr>
+                  {block.header.map((cell, j) => (
+                    <th key={j} style={{ textAlign: block.align[j] ?? undefined }}>
+                      {renderInline(cell, findingLink)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, j) => (
+                  <tr key={j}>
+                    {row.map((cell, k) => (
+                      <td key={k} style={{ textAlign: block.align[k] ?? undefined }}>
+                        {renderInline(cell, findingLink)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case "rule":
+        return <hr key={i} />;
+    }
+  });
+
+/**
+ * Renders markdown from the model as React elements. The input is never
+ * treated as HTML, so it can be shown without sanitizing.
+ */
+const Markdown = ({ text, findingLink, className }: MarkdownProps) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className={cn("prose prose-sm max-w-none", className)}>{renderBlocks(blocks, findingLink)}</div>;
+};
+
+export default Markdown;
@@ -0,0 +1,165 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import { formatCsv } from "@/lib/csv";
+import type { IndexedFinding } from "@/lib/finding-filters";
+import { findingImpact, formatMoney, triggerFields } from "@/lib/findings";
+import { STATUS_LABELS, findingStatus } from "@/lib/triage";
+import { cn } from "@/lib/utils";
+import { ChevronDown, ChevronUp, Copy } from "lucide-react";
+
+interface RowInspectorProps {
+  /** Findings in the order the table shows them, to step through with previous/next. */
+  items: IndexedFinding[];
+  /** Position of the inspected finding in `run.findings`; the sheet is open while this is set. */
+  position: number | null;
+  onNavigate: (position: number | null) => void;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+};
+
+const copy = async (text: string, label: string) => {
+  try {
+    await navigator.clipboard.writeText(text);
+    toast({ title: `Copied row as ${label}` });
+  } catch (error) {
+    toast({
+      title: "Could not copy",
+      description: error instanceof Error ? error.message : "The clipboard is not available",
+      variant: "destructive",
+    });
+  }
+};
+
+/**
+ * Side panel showing one finding's row as a key/value table, with the fields
+ * that triggered the finding highlighted. j/k or the arrow keys step through
+ * the findings in table order.
+ */
+const RowInspector = ({ items, position, onNavigate }: RowInspectorProps) => {
+  const current = position === null ? -1 : items.findIndex((item) => item.position === position);
+  const entry = current === -1 ? undefined : items[current];
+  const previous = current > 0 ? items[current - 1] : undefined;
+  const next = current !== -1 && current < items.length - 1 ? items[current + 1] : undefined;
+
+  const finding = entry?.finding;
+  const row = finding?.row ?? {};
+  const triggered = finding ? triggerFields(finding) : [];
+  const impact = finding && findingImpact(finding);
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if ((event.target as HTMLElement).closest("input, textarea")) return;
+    if ((event.key === "ArrowUp" || event.key === "k") && previous) {
+      event.preventDefault();
+      onNavigate(previous.position);
+    } else if ((event.key === "ArrowDown" || event.key === "j") && next) {
+      event.preventDefault();
+      onNavigate(next.position);
+    }
+  };
+
+  return (
+    <Sheet open={!!entry} onOpenChange={(open) => !open && onNavigate(null)}>
+      <SheetContent className="w-full sm:max-w-xl flex flex-col gap-4 overflow-hidden" onKeyDown={handleKeyDown}>
+        {finding && (
+          <>
+            <SheetHeader className="pr-6">
+              <SheetTitle className="flex items-center gap-2 flex-wrap">
+                <span className="font-mono">#{finding.index ?? entry.position}</span>
+                <Badge variant="outline">{finding.type}</Badge>
+                <Badge variant="secondary">{STATUS_LABELS[findingStatus(finding)]}</Badge>
+                {impact && (
+                  <Badge variant="outline" className="font-mono">
+                    {formatMoney(impact.amount, impact.currency)}
+                  </Badge>
+                )}
+              </SheetTitle>
+              <SheetDescription>{finding.reason}</SheetDescription>
+            </SheetHeader>
+
+            <div className="flex items-center gap-2 flex-wrap">
+              <Button variant="outline" size="sm" onClick={() => copy(JSON.stringify(row, null, 2), "JSON")}>
+                <Copy className="w-4 h-4 mr-2" />
+                JSON
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => copy(formatCsv([row]), "CSV")}>
+                <Copy className="w-4 h-4 mr-2" />
+                CSV
+              </Button>
+              <div className="ml-auto flex items-center gap-1">
+                <span className="text-xs text-muted-foreground mr-2">
+                  {(current + 1).toLocaleString()} of {items.length.toLocaleString()}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => previous && onNavigate(previous.position)}
+                  disabled={!previous}
+                  aria-label="Previous finding"
+                  title="Previous finding (k or ↑)"
+                >
+                  <ChevronUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => next && onNavigate(next.position)}
+                  disabled={!next}
+                  aria-label="Next finding"
+                  title="Next finding (j or ↓)"
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto rounded-md border border-border/50">
+              {Object.keys(row).length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">The finding has no row data</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-1/3">Field</TableHead>
+                      <TableHead>Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {Object.entries(row).map(([field, value]) => {
+                      const isTrigger = triggered.includes(field);
+                      return (
+                        <TableRow key={field} className={cn(isTrigger && "bg-accent/10 hover:bg-accent/20")}>
+                          <TableCell className="font-mono text-xs align-top">
+                            <span className={cn(isTrigger ? "text-accent font-semibold" : "text-muted-foreground")}>
+                              {field}
+                            </span>
+                            {isTrigger && <span className="sr-only"> (triggered the finding)</span>}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs whitespace-pre-wrap break-all">
+                            {formatValue(value) || <span className="text-muted-foreground">empty</span>}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+            {triggered.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                <span className="text-accent font-semibold">Highlighted</span> fields triggered this finding.
+              </p>
+            )}
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default RowInspector;
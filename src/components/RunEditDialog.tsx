@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { Run, RunUpdate } from "@/lib/api";
+
+interface RunEditDialogProps {
+  /** The run being edited; the dialog is open while this is set. */
+  run: Run | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (changes: RunUpdate) => void;
+}
+
+interface RunEditFormProps {
+  run: Run;
+  onCancel: () => void;
+  onSave: (changes: RunUpdate) => void;
+}
+
+// Mounted only while the dialog is open, so every opening starts from the
+// run's current values and a background refetch does not reset the inputs.
+const RunEditForm = ({ run, onCancel, onSave }: RunEditFormProps) => {
+  const [name, setName] = useState(run.name ?? "");
+  const [description, setDescription] = useState(run.description ?? "");
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSave({ name: name.trim() || null, description: description.trim() || null });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <DialogHeader>
+        <DialogTitle>Edit run</DialogTitle>
+        <DialogDescription>
+          The name replaces the source in the runs table. Leave it empty to show the source again.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-2">
+        <Label htmlFor="run-name">Name</Label>
+        <Input
+          id="run-name"
+          value={name}
+          maxLength={200}
+          placeholder={run.source ?? ""}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="run-description">Description</Label>
+        <Textarea
+          id="run-description"
+          value={description}
+          maxLength={2000}
+          onChange={(e) => setDescription(e.target.value)}
+          className="min-h-[100px]"
+        />
+      </div>
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit">Save</Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+const RunEditDialog = ({ run, onOpenChange, onSave }: RunEditDialogProps) => (
+  <Dialog open={run !== null} onOpenChange={onOpenChange}>
+    <DialogContent>
+      {run && (
+        <RunEditForm
+          run={run}
+          onCancel={() => onOpenChange(false)}
+          onSave={(changes) => {
+            onSave(changes);
+            onOpenChange(false);
+          }}
+        />
+      )}
+    </DialogContent>
+  </Dialog>
+);
+
+export default RunEditDialog;
@@ -0,0 +1,130 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import SearchInput from "@/components/SearchInput";
+import { CANONICAL_FIELDS } from "@/lib/mapping";
+import { clearRunFilters, hasActiveFilters, type RunFilters } from "@/lib/run-filters";
+import { X } from "lucide-react";
+
+interface RunFiltersBarProps {
+  filters: RunFilters;
+  onChange: (filters: RunFilters) => void;
+}
+
+const RunFiltersBar = ({ filters, onChange }: RunFiltersBarProps) => {
+  const explainValue = filters.explain === undefined ? "any" : filters.explain ? "yes" : "no";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-3">
+        <SearchInput
+          value={filters.q ?? ""}
+          onChange={(q) => onChange({ ...filters, q: q || undefined })}
+          placeholder="Search runs..."
+          className="flex-1 min-w-[200px]"
+        />
+        <label className="space-y-1 text-xs text-muted-foreground">
+          <span>From</span>
+          <Input
+            type="date"
+            value={filters.from ?? ""}
+            max={filters.to}
+            onChange={(e) => onChange({ ...filters, from: e.target.value || undefined })}
+            className="w-40"
+          />
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          <span>To</span>
+          <Input
+            type="date"
+            value={filters.to ?? ""}
+            min={filters.from}
+            onChange={(e) => onChange({ ...filters, to: e.target.value || undefined })}
+            className="w-40"
+          />
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          <span>Explain</span>
+          <Select
+            value={explainValue}
+            onValueChange={(value) => onChange({ ...filters, explain: value === "any" ? undefined : value === "yes" })}
+          >
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any</SelectItem>
+              <SelectItem value="yes">Yes</SelectItem>
+              <SelectItem value="no">No</SelectItem>
+            </SelectContent>
+          </Select>
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          <span>Min. findings</span>
+          <Input
+            type="number"
+            min={0}
+            value={filters.minFindings ?? ""}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              onChange({ ...filters, minFindings: Number.isInteger(value) && value > 0 ? value : undefined });
+            }}
+            className="w-28"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs text-muted-foreground">Coverage</span>
+        <ToggleGroup
+          type="multiple"
+          size="sm"
+          variant="outline"
+          value={filters.coverage ?? []}
+          onValueChange={(coverage) => onChange({ ...filters, coverage: coverage.length > 0 ? coverage : undefined })}
+          className="flex-wrap justify-start"
+        >
+          {CANONICAL_FIELDS.map((field) => (
+            <ToggleGroupItem key={field.key} value={field.key} className="h-7 px-2 text-xs font-mono">
+              {field.key}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        {filters.source && (
+          <Badge variant="secondary" className="gap-1">
+            Source: {filters.source}
+            <button
+              type="button"
+              onClick={() => onChange({ ...filters, source: undefined })}
+              aria-label="Clear source filter"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        )}
+        <label className="flex items-center gap-2 text-xs text-muted-foreground ml-auto">
+          <Switch
+            checked={filters.includeArchived ?? false}
+            onCheckedChange={(checked) => onChange({ ...filters, includeArchived: checked || undefined })}
+          />
+          Show archived
+        </label>
+        {hasActiveFilters(filters) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(clearRunFilters(filters))}
+          >
+            <X className="w-4 h-4 mr-1" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RunFiltersBar;
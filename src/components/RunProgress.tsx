@@ -0,0 +1,62 @@
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import type { Run } from "@/lib/api";
+import { runStatus } from "@/lib/run-status";
+import { AlertTriangle, Loader2 } from "lucide-react";
+
+interface RunProgressProps {
+  run: Run;
+}
+
+/**
+ * Stands in for the findings while a run is queued, being analyzed or has
+ * failed. The page polls the run, so this updates until the findings are in.
+ */
+const RunProgress = ({ run }: RunProgressProps) => {
+  const status = runStatus(run);
+  const started = formatDistanceToNow(new Date(run.createdAt), { addSuffix: true });
+
+  if (status === "failed") {
+    return (
+      <Card className="border-destructive/40">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-destructive">
+            <AlertTriangle className="w-5 h-5" />
+            Analysis failed
+          </CardTitle>
+          <CardDescription>Created {started}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">{run.error || "The backend did not say why."}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const percent = Math.round((run.progress ?? 0) * 100);
+  return (
+    <Card className="border-primary/20 shadow-lg shadow-primary/10 bg-gradient-to-br from-card to-card/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          {status === "queued" ? "Waiting to be analyzed" : "Analyzing"}
+        </CardTitle>
+        <CardDescription>
+          {status === "queued"
+            ? "The run is queued and starts as soon as a worker is free."
+            : `${(run.rowCount ?? 0).toLocaleString()} rows, ${percent}% done.`}{" "}
+          Created {started}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Progress value={status === "queued" ? 0 : percent} aria-label="Analysis progress" />
+        <p className="text-xs text-muted-foreground">
+          This page updates by itself; the findings appear here once analysis is done. You can leave and come back.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RunProgress;
@@ -0,0 +1,37 @@
+import { Badge } from "@/components/ui/badge";
+import type { Run } from "@/lib/api";
+import { RUN_STATUS_LABELS, runStatus } from "@/lib/run-status";
+import { Loader2 } from "lucide-react";
+
+interface RunStatusBadgeProps {
+  run: Run;
+}
+
+/** Where a run is in its analysis; failed runs carry the reason as a tooltip. */
+const RunStatusBadge = ({ run }: RunStatusBadgeProps) => {
+  const status = runStatus(run);
+
+  if (status === "failed") {
+    return (
+      <Badge variant="destructive" className="text-xs" title={run.error ?? undefined}>
+        {RUN_STATUS_LABELS.failed}
+      </Badge>
+    );
+  }
+  if (status === "completed") {
+    return (
+      <Badge variant="outline" className="text-xs">
+        {RUN_STATUS_LABELS.completed}
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="outline" className="text-xs gap-1 border-primary/40 text-primary whitespace-nowrap">
+      <Loader2 className="w-3 h-3 animate-spin" />
+      {RUN_STATUS_LABELS[status]}
+      {status === "processing" && run.progress != null && ` ${Math.round(run.progress * 100)}%`}
+    </Badge>
+  );
+};
+
+export default RunStatusBadge;
@@ -0,0 +1,53 @@
+import { useEffect, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { Search } from "lucide-react";
+
+interface SearchInputProps {
+  value: string;
+  /** Called with the trimmed text once typing pauses. */
+  onChange: (value: string) => void;
+  placeholder: string;
+  className?: string;
+}
+
+const DEBOUNCE_MS = 300;
+
+const SearchInput = ({ value, onChange, placeholder, className }: SearchInputProps) => {
+  // The text is local so that typing does not update the URL and refilter on every keystroke.
+  const [text, setText] = useState(value);
+  const committed = useRef(value);
+
+  // Follow outside changes (clearing, back/forward) but not our own commits,
+  // which would otherwise drop whatever was typed in the meantime.
+  useEffect(() => {
+    if (value === committed.current) return;
+    committed.current = value;
+    setText(value);
+  }, [value]);
+
+  useEffect(() => {
+    const trimmed = text.trim();
+    if (trimmed === committed.current) return;
+    const timer = setTimeout(() => {
+      committed.current = trimmed;
+      onChange(trimmed);
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [text, onChange]);
+
+  return (
+    <div className={cn("relative", className)}>
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+      <Input
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={placeholder}
+        aria-label={placeholder.replace(/\.+$/, "")}
+        className="pl-9"
+      />
+    </div>
+  );
+};
+
+export default SearchInput;
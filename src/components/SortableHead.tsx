@@ -0,0 +1,32 @@
+import { TableHead } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+
+interface SortableHeadProps {
+  label: string;
+  /** The column's current direction, or undefined when sorted by another column. */
+  direction?: "asc" | "desc";
+  onSort: () => void;
+  className?: string;
+}
+
+const SortableHead = ({ label, direction, onSort, className }: SortableHeadProps) => {
+  const Icon = direction === "asc" ? ArrowUp : direction === "desc" ? ArrowDown : ArrowUpDown;
+  return (
+    <TableHead
+      className={className}
+      aria-sort={direction === "asc" ? "ascending" : direction === "desc" ? "descending" : "none"}
+    >
+      <button
+        type="button"
+        onClick={onSort}
+        className={cn("inline-flex items-center gap-1 hover:text-foreground", direction && "text-foreground")}
+      >
+        {label}
+        <Icon className={cn("w-3 h-3", !direction && "opacity-40")} />
+      </button>
+    </TableHead>
+  );
+};
+
+export default SortableHead;
@@ -0,0 +1,140 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { Finding, SuppressionInput } from "@/lib/api";
+import { draftToInput, matchesSuppression, type SuppressionDraft } from "@/lib/suppressions";
+
+interface SuppressionDialogProps {
+  /** The rule being created or edited; the dialog is open while this is set. */
+  draft: SuppressionDraft | null;
+  /** Findings of the current run, to preview how many the rule would hide. */
+  findings?: Finding[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (input: SuppressionInput) => void;
+}
+
+interface SuppressionFormProps {
+  draft: SuppressionDraft;
+  findings?: Finding[];
+  onCancel: () => void;
+  onSave: (input: SuppressionInput) => void;
+}
+
+const formatValue = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value));
+
+// Mounted only while the dialog is open, so every opening starts from the draft.
+const SuppressionForm = ({ draft, findings, onCancel, onSave }: SuppressionFormProps) => {
+  const [selected, setSelected] = useState<string[]>(draft.selected);
+  const [reason, setReason] = useState(draft.reason);
+  const [expiresOn, setExpiresOn] = useState(draft.expiresOn);
+
+  const input = useMemo(
+    () => draftToInput({ ...draft, selected, reason, expiresOn }),
+    [draft, selected, reason, expiresOn],
+  );
+  const matches = useMemo(
+    () => findings?.filter((finding) => matchesSuppression(input, finding)).length,
+    [findings, input],
+  );
+
+  const toggleField = (field: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, field] : prev.filter((f) => f !== field)));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSave(input);
+  };
+
+  const fields = Object.entries(draft.fields);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <DialogHeader>
+        <DialogTitle>{draft.id ? "Edit suppression" : "Suppress similar findings"}</DialogTitle>
+        <DialogDescription>
+          Hides <span className="font-medium text-foreground">{draft.type}</span> findings whose row has all of the
+          checked values, in this run and every other.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-2">
+        <Label>Match on</Label>
+        {fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground">The finding has no row fields to match on.</p>
+        ) : (
+          <div className="max-h-60 overflow-y-auto rounded-md border border-border/50 divide-y divide-border/50">
+            {fields.map(([field, value]) => (
+              <label key={field} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-muted/30">
+                <Checkbox
+                  checked={selected.includes(field)}
+                  onCheckedChange={(checked) => toggleField(field, checked === true)}
+                />
+                <span className="font-mono text-muted-foreground w-32 shrink-0 truncate">{field}</span>
+                <span className="font-mono truncate">{formatValue(value)}</span>
+              </label>
+            ))}
+          </div>
+        )}
+        {selected.length === 0 && (
+          <p className="text-sm text-accent">With no fields checked, every {draft.type} finding is hidden.</p>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="suppression-reason">Reason</Label>
+        <Textarea
+          id="suppression-reason"
+          value={reason}
+          maxLength={2000}
+          placeholder="e.g. Annual reserved-instance prepayment"
+          onChange={(e) => setReason(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="suppression-expiry">Expires after</Label>
+        <Input
+          id="suppression-expiry"
+          type="date"
+          value={expiresOn}
+          onChange={(e) => setExpiresOn(e.target.value)}
+          className="w-48"
+        />
+        <p className="text-xs text-muted-foreground">Leave empty to keep the rule until it is deleted.</p>
+      </div>
+      <DialogFooter className="items-center">
+        {matches !== undefined && (
+          <span className="text-sm text-muted-foreground mr-auto">
+            Hides {matches.toLocaleString()} finding{matches === 1 ? "" : "s"} in this run
+          </span>
+        )}
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit">{draft.id ? "Save" : "Suppress"}</Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+const SuppressionDialog = ({ draft, findings, onOpenChange, onSave }: SuppressionDialogProps) => (
+  <Dialog open={draft !== null} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-lg">
+      {draft && (
+        <SuppressionForm
+          draft={draft}
+          findings={findings}
+          onCancel={() => onOpenChange(false)}
+          onSave={(input) => {
+            onSave(input);
+            onOpenChange(false);
+          }}
+        />
+      )}
+    </DialogContent>
+  </Dialog>
+);
+
+export default SuppressionDialog;
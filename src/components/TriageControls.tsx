@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { FINDING_STATUSES, type FindingStatus } from "@/lib/schemas";
+import { CLOSED_STATUSES, STATUS_LABELS } from "@/lib/triage";
+import { cn } from "@/lib/utils";
+import { MessageSquare, MessageSquarePlus } from "lucide-react";
+
+const STATUS_STYLES: Record<FindingStatus, string> = {
+  open: "text-foreground",
+  acknowledged: "text-accent",
+  fixed: "text-primary",
+  false_positive: "text-muted-foreground",
+  wont_fix: "text-muted-foreground",
+};
+
+interface StatusSelectProps {
+  value: FindingStatus;
+  onChange: (status: FindingStatus) => void;
+  className?: string;
+}
+
+export const StatusSelect = ({ value, onChange, className }: StatusSelectProps) => (
+  <Select value={value} onValueChange={(status) => onChange(status as FindingStatus)}>
+    <SelectTrigger
+      className={cn("h-8 text-xs", STATUS_STYLES[value], CLOSED_STATUSES.includes(value) && "opacity-80", className)}
+      aria-label="Status"
+    >
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {FINDING_STATUSES.map((status) => (
+        <SelectItem key={status} value={status} className="text-xs">
+          {STATUS_LABELS[status]}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+interface AssigneeInputProps {
+  value: string;
+  onChange: (assignee: string | null) => void;
+}
+
+/** Commits on Enter or when focus leaves, not on every keystroke. */
+export const AssigneeInput = ({ value, onChange }: AssigneeInputProps) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    if (draft.trim() !== value) onChange(draft.trim() || null);
+    setDraft(null);
+  };
+
+  return (
+    <Input
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+        if (e.key === "Escape") setDraft(null);
+      }}
+      placeholder="Unassigned"
+      aria-label="Assignee"
+      className="h-8 text-xs"
+    />
+  );
+};
+
+interface NotesButtonProps {
+  value: string;
+  onChange: (notes: string | null) => void;
+}
+
+export const NotesButton = ({ value, onChange }: NotesButtonProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(value);
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        if (next) setDraft(value);
+        setOpen(next);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn("h-8 px-2", value && "text-primary")}
+          aria-label={value ? "Edit notes" : "Add notes"}
+          title={value || "Add notes"}
+        >
+          {value ? <MessageSquare className="w-4 h-4" /> : <MessageSquarePlus className="w-4 h-4" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="What was found, who was contacted, what happens next..."
+          className="min-h-[120px] text-sm"
+          maxLength={5000}
+          autoFocus
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => {
+              if (draft.trim() !== value) onChange(draft.trim() || null);
+              setOpen(false);
+            }}
+          >
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,71 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { describeError } from "@/lib/api";
+import type { useChunkedUpload } from "@/hooks/use-chunked-upload";
+import { Loader2, Pause, Play, RotateCw, X } from "lucide-react";
+
+interface UploadProgressProps {
+  upload: ReturnType<typeof useChunkedUpload>;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const UploadProgress = ({ upload }: UploadProgressProps) => {
+  const percent = upload.total > 0 ? Math.round((upload.uploaded / upload.total) * 100) : 0;
+  const finishing = upload.status === "uploading" && upload.total > 0 && upload.uploaded === upload.total;
+
+  const label = {
+    idle: "",
+    uploading: finishing ? "Upload complete, analyzing..." : "Uploading...",
+    reconnecting: "Connection lost, reconnecting...",
+    paused: "Paused",
+    error: describeError(upload.error).description,
+    done: "Done",
+  }[upload.status];
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border/50 p-4">
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <span className={upload.status === "error" ? "text-destructive" : "text-muted-foreground"}>
+          {(upload.status === "reconnecting" || finishing) && <Loader2 className="inline w-4 h-4 mr-2 animate-spin" />}
+          {label}
+        </span>
+        <span className="font-mono text-xs text-muted-foreground">
+          {formatBytes(upload.uploaded)} / {formatBytes(upload.total)} ({percent}%)
+        </span>
+      </div>
+      <Progress value={percent} />
+      <div className="flex justify-end gap-2">
+        {(upload.status === "uploading" || upload.status === "reconnecting") && !finishing && (
+          <Button variant="outline" size="sm" onClick={upload.pause}>
+            <Pause className="w-4 h-4 mr-1" />
+            Pause
+          </Button>
+        )}
+        {upload.status === "paused" && (
+          <Button variant="outline" size="sm" onClick={upload.resume}>
+            <Play className="w-4 h-4 mr-1" />
+            Resume
+          </Button>
+        )}
+        {upload.status === "error" && (
+          <Button variant="outline" size="sm" onClick={upload.resume}>
+            <RotateCw className="w-4 h-4 mr-1" />
+            Retry
+          </Button>
+        )}
+        {upload.status !== "done" && (
+          <Button variant="ghost" size="sm" onClick={upload.cancel}>
+            <X className="w-4 h-4 mr-1" />
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UploadProgress;
@@ -0,0 +1,106 @@
+import { useEffect, useRef, type Key, type ReactNode } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { TableBody, TableHeader } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+
+/** Spread onto each rendered `<TableRow>` so the virtualizer can measure it. */
+export interface VirtualRowProps {
+  ref: (element: HTMLTableRowElement | null) => void;
+  "data-index": number;
+}
+
+interface VirtualTableProps<T> {
+  items: T[];
+  /** The header `<TableRow>`; it stays visible while the body scrolls and its cells set the column widths. */
+  header: ReactNode;
+  /** Expected row height before the row has been measured. */
+  estimateSize: (item: T) => number;
+  getKey: (item: T, index: number) => Key;
+  renderRow: (item: T, row: VirtualRowProps) => ReactNode;
+  /** Called when the last rows come into view, e.g. to fetch the next page. */
+  onEndReached?: () => void;
+  /** Scrolls back to the top whenever this value changes, e.g. on a new filter. */
+  resetKey?: unknown;
+  /** Brings the item at this index into view; `onScrolledTo` is called once it has been, so the same item can be requested again. */
+  scrollToIndex?: number;
+  onScrolledTo?: () => void;
+  className?: string;
+}
+
+const OVERSCAN = 10;
+const END_THRESHOLD = 5;
+
+/**
+ * A table that only renders the rows in and near the viewport, so it stays
+ * responsive with hundreds of thousands of rows. Rows may differ in height:
+ * each is measured once rendered. Spacer rows above and below keep the
+ * native table layout, and with it column alignment, intact.
+ */
+function VirtualTable<T>({
+  items,
+  header,
+  estimateSize,
+  getKey,
+  renderRow,
+  onEndReached,
+  resetKey,
+  scrollToIndex,
+  onScrolledTo,
+  className,
+}: VirtualTableProps<T>) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const virtualizer = useVirtualizer({
+    count: items.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: (index) => estimateSize(items[index]),
+    getItemKey: (index) => getKey(items[index], index),
+    overscan: OVERSCAN,
+  });
+
+  const virtualRows = virtualizer.getVirtualItems();
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0;
+  const paddingBottom = virtualRows.length > 0 ? virtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end : 0;
+  const lastIndex = virtualRows.length > 0 ? virtualRows[virtualRows.length - 1].index : -1;
+
+  useEffect(() => {
+    if (onEndReached && items.length > 0 && lastIndex >= items.length - END_THRESHOLD) onEndReached();
+  }, [lastIndex, items.length, onEndReached]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [resetKey]);
+
+  // Runs after the reset above, so a filter change and a scroll request in the same render end on the item.
+  useEffect(() => {
+    if (scrollToIndex === undefined) return;
+    virtualizer.scrollToIndex(scrollToIndex, { align: "center" });
+    scrollRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+    onScrolledTo?.();
+  }, [scrollToIndex, onScrolledTo, virtualizer]);
+
+  return (
+    <div ref={scrollRef} className={cn("relative w-full overflow-auto max-h-[70vh]", className)}>
+      {/* Fixed layout takes column widths from the header, so they do not jump as rows scroll past. */}
+      <table className="w-full table-fixed caption-bottom text-sm">
+        <TableHeader className="sticky top-0 z-10 bg-card shadow-[0_1px_0_hsl(var(--border))]">{header}</TableHeader>
+        <TableBody>
+          {paddingTop > 0 && (
+            <tr aria-hidden>
+              <td style={{ height: paddingTop }} />
+            </tr>
+          )}
+          {virtualRows.map((virtualRow) =>
+            renderRow(items[virtualRow.index], { ref: virtualizer.measureElement, "data-index": virtualRow.index }),
+          )}
+          {paddingBottom > 0 && (
+            <tr aria-hidden>
+              <td style={{ height: paddingBottom }} />
+            </tr>
+          )}
+        </TableBody>
+      </table>
+    </div>
+  );
+}
+
+export default VirtualTable;
@@ -0,0 +1,95 @@
+import { useCallback, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { createRunFromRows, uploadFileInChunks } from "@/lib/api";
+import { autoPlan, mapWithConcurrency } from "@/lib/batch";
+import { displayName } from "@/lib/files";
+import { LARGE_FILE_BYTES, loadUploadHead } from "@/lib/uploads";
+
+const CONCURRENCY = 3;
+
+export type BatchItemStatus = "queued" | "parsing" | "uploading" | "created" | "failed";
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  /** How the file's columns were interpreted, once parsed. */
+  plan?: string;
+  /** 0..100 while a chunked upload is in progress. */
+  progress?: number;
+  runId?: string;
+  error?: unknown;
+}
+
+/**
+ * Turns many files into one run each, at most `CONCURRENCY` at a time.
+ * Every file is parsed, mapped automatically and submitted the same way a
+ * single upload would be; one file failing does not stop the others.
+ */
+export function useBatchUpload() {
+  const queryClient = useQueryClient();
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const update = useCallback((id: string, patch: Partial<BatchItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const start = useCallback(
+    async (files: File[], explain: boolean) => {
+      const queue = files.map((file) => ({ id: crypto.randomUUID(), file, status: "queued" as const }));
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setItems(queue);
+      setRunning(true);
+
+      await mapWithConcurrency(queue, CONCURRENCY, async ({ id, file }) => {
+        if (controller.signal.aborted) return;
+        try {
+          update(id, { status: "parsing" });
+          const upload = await loadUploadHead(file);
+          if (upload.table.errors.length > 0) {
+            const [first] = upload.table.errors;
+            throw new Error(`Line ${first.line}, column ${first.column}: ${first.message}`);
+          }
+          const plan = autoPlan(upload);
+          update(id, { status: "uploading", plan: plan.label });
+
+          const source = displayName(file);
+          const result =
+            upload.partial || file.size > LARGE_FILE_BYTES
+              ? await uploadFileInChunks(file, {
+                  explain,
+                  source,
+                  ...plan.serverOptions,
+                  signal: controller.signal,
+                  onProgress: ({ uploaded, total }) => update(id, { progress: Math.round((uploaded / total) * 100) }),
+                })
+              : await createRunFromRows(plan.buildRows(upload.rows), explain, source);
+          update(id, { status: "created", runId: result.runId });
+        } catch (error) {
+          update(id, { status: "failed", error: controller.signal.aborted ? new Error("Cancelled") : error });
+        }
+      });
+
+      setRunning(false);
+      queryClient.invalidateQueries({ queryKey: ["runs"] });
+    },
+    [queryClient, update],
+  );
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    setItems((prev) =>
+      prev.map((item) => (item.status === "queued" ? { ...item, status: "failed", error: new Error("Cancelled") } : item)),
+    );
+  }, []);
+
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    setItems([]);
+  }, []);
+
+  return { items, running, start, cancel, reset };
+}
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { abortUpload, uploadFileInChunks, type CreateRunResponse } from "@/lib/api";
+
+type UploadStatus = "idle" | "uploading" | "reconnecting" | "paused" | "error" | "done";
+
+interface UploadState {
+  status: UploadStatus;
+  uploaded: number;
+  total: number;
+  error?: unknown;
+}
+
+type UploadOptions = Omit<Parameters<typeof uploadFileInChunks>[1], "uploadId" | "signal" | "onSession" | "onProgress" | "onReconnect">;
+
+const IDLE: UploadState = { status: "idle", uploaded: 0, total: 0 };
+
+/**
+ * Drives `uploadFileInChunks` for one file at a time with pause, resume and
+ * cancel. Pausing aborts the in-flight chunk but keeps the server session, so
+ * resuming continues from the last acknowledged byte.
+ */
+export function useChunkedUpload(onComplete: (result: CreateRunResponse) => void) {
+  const [state, setState] = useState<UploadState>(IDLE);
+  const controllerRef = useRef<AbortController | null>(null);
+  const sessionRef = useRef<string | undefined>(undefined);
+  const jobRef = useRef<{ file: File; options: UploadOptions } | null>(null);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  const run = useCallback(async () => {
+    const job = jobRef.current;
+    if (!job) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setState((prev) => ({ ...prev, status: "uploading", error: undefined }));
+
+    try {
+      const result = await uploadFileInChunks(job.file, {
+        ...job.options,
+        uploadId: sessionRef.current,
+        signal: controller.signal,
+        onSession: (uploadId) => {
+          sessionRef.current = uploadId;
+        },
+        onProgress: ({ uploaded, total }) => setState((prev) => ({ ...prev, status: "uploading", uploaded, total })),
+        onReconnect: () => setState((prev) => ({ ...prev, status: "reconnecting" })),
+      });
+      setState((prev) => ({ ...prev, status: "done" }));
+      onCompleteRef.current(result);
+    } catch (error) {
+      // Pause and cancel abort the controller and set the state themselves.
+      if (controller.signal.aborted) return;
+      setState((prev) => ({ ...prev, status: "error", error }));
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  }, []);
+
+  const start = useCallback(
+    (file: File, options: UploadOptions) => {
+      jobRef.current = { file, options };
+      sessionRef.current = undefined;
+      setState({ status: "uploading", uploaded: 0, total: file.size });
+      return run();
+    },
+    [run],
+  );
+
+  const pause = useCallback(() => {
+    controllerRef.current?.abort();
+    setState((prev) => ({ ...prev, status: "paused" }));
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    const uploadId = sessionRef.current;
+    sessionRef.current = undefined;
+    jobRef.current = null;
+    setState(IDLE);
+    // Best effort: an orphaned session just expires on the server.
+    if (uploadId) abortUpload(uploadId).catch(() => undefined);
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const active = state.status === "uploading" || state.status === "reconnecting" || state.status === "paused";
+
+  return { ...state, active, start, pause, resume: run, cancel };
+}
@@ -0,0 +1,35 @@
+import { useCallback, useState } from "react";
+import { initialMapping, type ColumnMapping } from "@/lib/mapping";
+
+interface MappingState {
+  signature: string;
+  mapping: ColumnMapping;
+  profileName?: string;
+}
+
+function initialState(columns: string[], signature: string): MappingState {
+  const { mapping, profile } = initialMapping(columns);
+  return { signature, mapping, profileName: profile?.name };
+}
+
+/**
+ * Column mapping for the current upload. Whenever the set of source columns
+ * changes (a new file, edited JSON) the mapping starts over from a matching
+ * saved profile or from name-based suggestions.
+ */
+export function useColumnMapping(columns: string[]) {
+  const signature = columns.join("\u0000");
+  const [state, setState] = useState<MappingState>(() => initialState(columns, signature));
+
+  let current = state;
+  if (state.signature !== signature) {
+    current = initialState(columns, signature);
+    setState(current);
+  }
+
+  const setMapping = useCallback((mapping: ColumnMapping, profileName?: string) => {
+    setState((prev) => ({ ...prev, mapping, profileName }));
+  }, []);
+
+  return { mapping: current.mapping, profileName: current.profileName, setMapping };
+}
@@ -0,0 +1,47 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { describeError, updateFindings, type FindingUpdate, type GetRunResponse } from "@/lib/api";
+import { toast } from "@/hooks/use-toast";
+
+/**
+ * Changes status, assignee or notes of findings in one run. The cached run
+ * is patched right away and restored if the request fails. It is not
+ * refetched on success: the change is already in the cache, and a large
+ * run would be expensive to reload after every edit.
+ */
+export function useFindingTriage(runId: string) {
+  const queryClient = useQueryClient();
+  const queryKey = ["run", runId];
+
+  return useMutation({
+    mutationFn: ({ positions, update }: { positions: number[]; update: FindingUpdate }) =>
+      updateFindings(runId, positions, update),
+    onMutate: async ({ positions, update }) => {
+      // Exact, so the run's costs and conversation, keyed under it, keep loading.
+      await queryClient.cancelQueries({ queryKey, exact: true });
+      const previous = queryClient.getQueryData<GetRunResponse>(queryKey);
+      if (previous?.run.findings) {
+        const selected = new Set(positions);
+        // Cleared fields are dropped, as the backend leaves them out.
+        const patch = Object.fromEntries(Object.entries(update).map(([key, value]) => [key, value ?? undefined]));
+        queryClient.setQueryData<GetRunResponse>(queryKey, {
+          ...previous,
+          run: {
+            ...previous.run,
+            findings: previous.run.findings.map((finding, position) =>
+              selected.has(position) ? { ...finding, ...patch } : finding,
+            ),
+          },
+        });
+      }
+      return { previous };
+    },
+    onError: (error, { positions }, context) => {
+      if (context?.previous) queryClient.setQueryData(queryKey, context.previous);
+      toast({
+        title: positions.length > 1 ? "Could not update findings" : "Could not update finding",
+        description: describeError(error).description,
+        variant: "destructive",
+      });
+    },
+  });
+}
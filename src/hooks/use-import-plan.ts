@@ -0,0 +1,37 @@
+import { useCallback, useMemo, useState } from "react";
+import { useColumnMapping } from "@/hooks/use-column-mapping";
+import { detectFormat } from "@/lib/importers";
+import { applyMapping, missingRequiredFields } from "@/lib/mapping";
+import type { Row } from "@/lib/schemas";
+
+/**
+ * Decides how uploaded rows become the payload for `createRunFromRows`: via a
+ * recognized provider format when the columns match one, otherwise (or when
+ * the user opts out) via the manual column mapping.
+ */
+export function useImportPlan(columns: string[]) {
+  const format = useMemo(() => detectFormat(columns), [columns]);
+  const mapping = useColumnMapping(columns);
+  const [manualFor, setManualFor] = useState<string[] | null>(null);
+
+  // Opting out of the detected format only applies to the columns it was chosen for.
+  const manual = !format || manualFor === columns;
+  const setManual = useCallback((value: boolean) => setManualFor(value ? columns : null), [columns]);
+
+  const ready = columns.length > 0 && (!manual || missingRequiredFields(mapping.mapping).length === 0);
+
+  const buildRows = useCallback(
+    (rows: Row[]) => (manual ? applyMapping(rows, mapping.mapping) : rows.map(format.normalize)),
+    [manual, mapping.mapping, format],
+  );
+
+  // For chunked uploads the backend reads the file, so it gets the recipe instead of the rows.
+  const serverOptions = useMemo(
+    () => (manual ? { mapping: mapping.mapping } : { format: format.id }),
+    [manual, mapping.mapping, format],
+  );
+
+  return { format, manual, setManual, mapping, ready, buildRows, serverOptions };
+}
+
+export type ImportPlan = ReturnType<typeof useImportPlan>;
@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { subscribeToRuns, type GetRunResponse, type ListRunsResponse, type Run, type RunEvent } from "@/lib/api";
+import { runStatus } from "@/lib/run-status";
+
+type RunsPages = InfiniteData<ListRunsResponse, string | undefined>;
+
+/** `unavailable` means the backend cannot stream run events at all; lists fall back to polling. */
+type LiveStatus = "connecting" | "live" | "reconnecting" | "unavailable";
+
+/**
+ * Subscribes to run events while mounted. Updated and deleted runs are
+ * patched into every cached runs list in place; created runs are only
+ * collected in `newRuns`, kept up to date as they are analyzed, so the
+ * table does not jump under the pointer, until `showNewRuns` reloads the
+ * lists.
+ */
+export function useLiveRuns() {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<LiveStatus>("connecting");
+  const [newRuns, setNewRuns] = useState<Run[]>([]);
+
+  useEffect(() => {
+    const patchLists = (patch: (runs: Run[]) => Run[]) =>
+      queryClient.setQueriesData<RunsPages>(
+        { queryKey: ["runs"] },
+        (data) => data && { ...data, pages: data.pages.map((page) => ({ ...page, runs: patch(page.runs) })) },
+      );
+
+    const handleEvent = (event: RunEvent) => {
+      switch (event.type) {
+        case "created":
+          setNewRuns((runs) => (runs.some((run) => run.id === event.run.id) ? runs : [...runs, event.run]));
+          break;
+        case "updated": {
+          const { run } = event;
+          patchLists((runs) => runs.map((listed) => (listed.id === run.id ? run : listed)));
+          // Whether a new run matches the list's filters can change as it is analyzed.
+          setNewRuns((runs) => runs.map((listed) => (listed.id === run.id ? run : listed)));
+          // The event leaves out findings and the explanation, so only the fields it has are copied.
+          const cached = queryClient.getQueryData<GetRunResponse>(["run", run.id]);
+          if (!cached) break;
+          const { findingCount: _count, ...fields } = run;
+          queryClient.setQueryData<GetRunResponse>(["run", run.id], { ...cached, run: { ...cached.run, ...fields } });
+          // Findings arrive with the status change, or the explanation changed without its text.
+          if (runStatus(cached.run) !== runStatus(run) || cached.run.explain !== run.explain) {
+            queryClient.invalidateQueries({ queryKey: ["run", run.id], exact: true });
+          }
+          break;
+        }
+        case "deleted":
+          patchLists((runs) => runs.filter((listed) => listed.id !== event.id));
+          setNewRuns((runs) => runs.filter((run) => run.id !== event.id));
+          queryClient.invalidateQueries({ queryKey: ["run", event.id], exact: true });
+          break;
+        case "reset":
+          // Events were missed for good: reload the lists, new runs included.
+          setNewRuns([]);
+          queryClient.invalidateQueries({ queryKey: ["runs"] });
+          break;
+      }
+    };
+
+    const controller = new AbortController();
+    subscribeToRuns(handleEvent, {
+      signal: controller.signal,
+      onConnect: () => setStatus("live"),
+      onReconnect: () => setStatus("reconnecting"),
+    }).catch(() => {
+      if (!controller.signal.aborted) setStatus("unavailable");
+    });
+    return () => controller.abort();
+  }, [queryClient]);
+
+  const showNewRuns = useCallback(() => {
+    setNewRuns([]);
+    queryClient.invalidateQueries({ queryKey: ["runs"] });
+  }, [queryClient]);
+
+  return { status, newRuns, showNewRuns };
+}
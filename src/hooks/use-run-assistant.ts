@@ -0,0 +1,211 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useMutation, useMutationState, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  askAboutRun,
+  clearChat,
+  describeError,
+  getChat,
+  streamExplanation,
+  type ChatResponse,
+  type GetRunResponse,
+} from "@/lib/api";
+import { toast } from "@/hooks/use-toast";
+
+type StreamStatus = "idle" | "streaming" | "stopped" | "error";
+
+interface ExplanationState {
+  status: StreamStatus;
+  /** The text streamed so far; once complete it moves to the cached run. */
+  text: string;
+  /** Findings the explanation was asked about; all of them when unset. */
+  positions?: number[];
+  error?: unknown;
+}
+
+const IDLE: ExplanationState = { status: "idle", text: "" };
+
+/**
+ * Streams a new explanation of a run, optionally of some of its findings.
+ * While streaming, and after a stop or failure, `text` holds what arrived;
+ * on completion the cached run gets the explanation, the run and runs list
+ * are refetched and the state returns to idle.
+ */
+export function useExplanationStream(runId: string) {
+  const queryClient = useQueryClient();
+  const [state, setState] = useState<ExplanationState>(IDLE);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const start = useCallback(
+    async (positions?: number[]) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setState({ status: "streaming", text: "", positions });
+
+      try {
+        const text = await streamExplanation(
+          runId,
+          (piece) => setState((prev) => ({ ...prev, text: prev.text + piece })),
+          { positions, signal: controller.signal },
+        );
+        // Patched first so the finished text stays on screen while the run reloads.
+        queryClient.setQueryData<GetRunResponse>(
+          ["run", runId],
+          (previous) =>
+            previous && {
+              ...previous,
+              run: { ...previous.run, explain: true, explanation: text, explanationScope: positions },
+            },
+        );
+        setState(IDLE);
+        queryClient.invalidateQueries({ queryKey: ["run", runId], exact: true });
+        queryClient.invalidateQueries({ queryKey: ["runs"] });
+      } catch (error) {
+        // Stop and unmount abort the controller and set the state themselves.
+        if (controller.signal.aborted) return;
+        setState((prev) => ({ ...prev, status: "error", error }));
+      } finally {
+        if (controllerRef.current === controller) controllerRef.current = null;
+      }
+    },
+    [runId, queryClient],
+  );
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setState((prev) => (prev.status === "streaming" ? { ...prev, status: "stopped" } : prev));
+  }, []);
+
+  // A different run, or leaving the page, ends the stream.
+  useEffect(
+    () => () => {
+      controllerRef.current?.abort();
+      setState(IDLE);
+    },
+    [runId],
+  );
+
+  return { ...state, start, stop };
+}
+
+export type ExplanationStream = ReturnType<typeof useExplanationStream>;
+
+/**
+ * Explains runs where the stream is not shown, such as the runs table:
+ * `pending` holds the ids being explained, and each run and the runs list
+ * are refetched once its explanation is complete.
+ */
+export function useExplainRun() {
+  const queryClient = useQueryClient();
+
+  const explain = useMutation({
+    mutationKey: ["explain"],
+    mutationFn: (runId: string) => streamExplanation(runId, () => undefined),
+    onSuccess: () => toast({ title: "Explanation ready" }),
+    onError: (error) => {
+      toast({
+        title: "Could not explain run",
+        description: describeError(error).description,
+        variant: "destructive",
+      });
+    },
+    onSettled: (_text, _error, runId) => {
+      queryClient.invalidateQueries({ queryKey: ["run", runId], exact: true });
+      queryClient.invalidateQueries({ queryKey: ["runs"] });
+    },
+  });
+
+  const pending = useMutationState({
+    filters: { mutationKey: ["explain"], status: "pending" },
+    select: (mutation) => mutation.state.variables as string,
+  });
+
+  return { explain: explain.mutate, pending: new Set(pending) };
+}
+
+interface PendingAnswer {
+  question: string;
+  answer: string;
+  streaming: boolean;
+  error?: unknown;
+}
+
+/**
+ * Follow-up questions about a run. The history lives on the backend; the
+ * question being answered is kept here, with its answer streaming in, until
+ * the backend has stored both.
+ */
+export function useRunChat(runId: string) {
+  const queryClient = useQueryClient();
+  const queryKey = ["run", runId, "chat"];
+  const [pending, setPending] = useState<PendingAnswer | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const history = useQuery({
+    queryKey,
+    queryFn: ({ signal }) => getChat(runId, signal),
+  });
+
+  const ask = async (question: string) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setPending({ question, answer: "", streaming: true });
+
+    try {
+      await askAboutRun(
+        runId,
+        question,
+        (piece) => setPending((prev) => prev && { ...prev, answer: prev.answer + piece }),
+        controller.signal,
+      );
+      await queryClient.invalidateQueries({ queryKey });
+      setPending(null);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      setPending((prev) => prev && { ...prev, streaming: false, error });
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  };
+
+  // A stopped answer is not stored, so the question goes back to the input.
+  const stop = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    const question = pending?.question;
+    setPending(null);
+    return question;
+  };
+
+  useEffect(
+    () => () => {
+      controllerRef.current?.abort();
+      setPending(null);
+    },
+    [runId],
+  );
+
+  const clear = useMutation({
+    mutationFn: () => clearChat(runId),
+    onSuccess: () => queryClient.setQueryData<ChatResponse>(queryKey, { ok: true, messages: [] }),
+    onError: (error) => {
+      toast({
+        title: "Could not clear the conversation",
+        description: describeError(error).description,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    messages: history.data?.messages ?? [],
+    isLoading: history.isLoading,
+    error: history.error,
+    pending,
+    ask,
+    stop,
+    clear,
+  };
+}
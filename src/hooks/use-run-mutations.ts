@@ -0,0 +1,85 @@
+import { useMutation, useQueryClient, type InfiniteData, type QueryKey } from "@tanstack/react-query";
+import { deleteRun, describeError, updateRun, type ListRunsResponse, type RunFilters, type RunUpdate } from "@/lib/api";
+import { mapWithConcurrency } from "@/lib/batch";
+import { toast } from "@/hooks/use-toast";
+
+type RunsPages = InfiniteData<ListRunsResponse, string | undefined>;
+type Snapshot = [QueryKey, RunsPages | undefined][];
+
+const CONCURRENCY = 4;
+
+/**
+ * Calls `action` for every id and throws the first failure once all have
+ * settled, so that one bad id does not leave the rest untouched.
+ */
+async function forEachRun(ids: string[], action: (id: string) => Promise<unknown>) {
+  const errors: unknown[] = [];
+  await mapWithConcurrency(ids, CONCURRENCY, async (id) => {
+    try {
+      await action(id);
+    } catch (error) {
+      errors.push(error);
+    }
+  });
+  if (errors.length > 0) throw errors[0];
+}
+
+/**
+ * Rename, archive and delete for one or many runs. Every cached runs list
+ * is patched before the request goes out and restored if it fails; either
+ * way the lists are refetched afterwards to pick up the server's view.
+ */
+export function useRunMutations() {
+  const queryClient = useQueryClient();
+
+  const patchLists = async (patch: (runs: ListRunsResponse["runs"], filters: RunFilters) => ListRunsResponse["runs"]) => {
+    await queryClient.cancelQueries({ queryKey: ["runs"] });
+    const snapshot: Snapshot = queryClient.getQueriesData<RunsPages>({ queryKey: ["runs"] });
+    for (const [key, data] of snapshot) {
+      if (!data) continue;
+      const filters = (key[1] ?? {}) as RunFilters;
+      queryClient.setQueryData<RunsPages>(key, {
+        ...data,
+        pages: data.pages.map((page) => ({ ...page, runs: patch(page.runs, filters) })),
+      });
+    }
+    return snapshot;
+  };
+
+  const rollback = (snapshot: Snapshot | undefined, error: unknown, title: string) => {
+    snapshot?.forEach(([key, data]) => queryClient.setQueryData(key, data));
+    toast({ title, description: describeError(error).description, variant: "destructive" });
+  };
+
+  const settle = (ids: string[]) => {
+    queryClient.invalidateQueries({ queryKey: ["runs"] });
+    ids.forEach((id) => queryClient.invalidateQueries({ queryKey: ["run", id] }));
+  };
+
+  const update = useMutation({
+    mutationFn: ({ ids, changes }: { ids: string[]; changes: RunUpdate }) =>
+      forEachRun(ids, (id) => updateRun(id, changes)),
+    onMutate: ({ ids, changes }) =>
+      patchLists((runs, filters) =>
+        runs
+          // Archiving hides a run from lists that do not show archived runs.
+          .filter((run) => !(ids.includes(run.id) && changes.archived && !filters.includeArchived))
+          .map((run) => (ids.includes(run.id) ? { ...run, ...changes } : run)),
+      ),
+    onError: (error, { ids }, snapshot) => rollback(snapshot, error, ids.length > 1 ? "Could not update runs" : "Could not update run"),
+    onSettled: (_data, _error, { ids }) => settle(ids),
+  });
+
+  const remove = useMutation({
+    mutationFn: (ids: string[]) => forEachRun(ids, deleteRun),
+    onMutate: (ids) => patchLists((runs) => runs.filter((run) => !ids.includes(run.id))),
+    onError: (error, ids, snapshot) => rollback(snapshot, error, ids.length > 1 ? "Could not delete runs" : "Could not delete run"),
+    onSuccess: (_data, ids) => {
+      ids.forEach((id) => queryClient.removeQueries({ queryKey: ["run", id] }));
+      toast({ title: ids.length > 1 ? `${ids.length} runs deleted` : "Run deleted" });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["runs"] }),
+  });
+
+  return { update, remove };
+}
@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  createSuppression,
+  deleteSuppression,
+  describeError,
+  listSuppressions,
+  updateSuppression,
+  type SuppressionInput,
+} from "@/lib/api";
+import { toast } from "@/hooks/use-toast";
+
+export function useSuppressions() {
+  return useQuery({
+    queryKey: ["suppressions"],
+    queryFn: ({ signal }) => listSuppressions(signal),
+  });
+}
+
+/**
+ * Create, edit and delete suppression rules. The backend applies rules when
+ * a run is read, so every cached run is refetched afterwards to show or hide
+ * the findings the change affects.
+ */
+export function useSuppressionMutations() {
+  const queryClient = useQueryClient();
+
+  const settle = () => {
+    queryClient.invalidateQueries({ queryKey: ["suppressions"] });
+    queryClient.invalidateQueries({ queryKey: ["run"] });
+  };
+
+  const fail = (title: string) => (error: unknown) =>
+    toast({ title, description: describeError(error).description, variant: "destructive" });
+
+  const create = useMutation({
+    mutationFn: createSuppression,
+    onSuccess: ({ suppression }) =>
+      toast({
+        title: "Suppression created",
+        description: `${(suppression.hits ?? 0).toLocaleString()} matching finding${suppression.hits === 1 ? "" : "s"} hidden`,
+      }),
+    onError: fail("Could not create suppression"),
+    onSettled: settle,
+  });
+
+  const update = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: Partial<SuppressionInput> }) => updateSuppression(id, input),
+    onError: fail("Could not update suppression"),
+    onSettled: settle,
+  });
+
+  const remove = useMutation({
+    mutationFn: deleteSuppression,
+    onSuccess: () => toast({ title: "Suppression deleted" }),
+    onError: fail("Could not delete suppression"),
+    onSettled: settle,
+  });
+
+  return { create, update, remove };
+}
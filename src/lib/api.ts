@@ -1,90 +1,248 @@
+import type { z } from 'zod';
+import { ApiError, ContractError, NetworkError, StreamError, errorFromResponse, isRetryableError } from './errors';
+import type { ColumnMapping } from './mapping';
+import { runFilterParams, type RunFilters } from './run-filters';
+import { readEventStream } from './sse';
+import {
+  ChatResponseSchema,
+  CreateRunResponseSchema,
+  GetRunResponseSchema,
+  ListRunsResponseSchema,
+  ListSuppressionsResponseSchema,
+  RunCostsResponseSchema,
+  RunEventSchema,
+  StreamChunkSchema,
+  TrendsResponseSchema,
+  SuppressionResponseSchema,
+  UpdateFindingsResponseSchema,
+  UploadChunkResponseSchema,
+  UploadSessionSchema,
+  type ChatResponse,
+  type CreateRunResponse,
+  type FindingStatus,
+  type GetRunResponse,
+  type ListRunsResponse,
+  type ListSuppressionsResponse,
+  type Row,
+  type RunCostsResponse,
+  type RunEvent,
+  type TrendsResponse,
+  type SuppressionResponse,
+  type UpdateFindingsResponse,
+  type UploadSession,
+} from './schemas';
+
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:8787/api/v1';
 const SECRET = import.meta.env.VITE_WATCHTOWER_SECRET || 'dev-secret';
+const USE_MOCK = import.meta.env.VITE_MOCK_API === 'true';
 
-interface Run {
-  id: string;
-  createdAt: string;
-  source?: string;
-  rowCount?: number;
-  explain?: boolean;
-  coverage?: string[];
-  explanation?: string;
-  findings?: Finding[];
+function getHeaders(): HeadersInit {
+  return {
+    'x-watchtower-secret': SECRET,
+  };
 }
 
-interface Finding {
-  index?: number;
-  type: string;
-  reason: string;
-  row?: any;
+interface RetryOptions {
+  /** Additional attempts after the first one. 0 disables retrying. */
+  retries: number;
+  /** Delay before the first retry; doubled on every further attempt. */
+  baseDelayMs: number;
+  /** Upper bound for a single delay, including a server-provided Retry-After. */
+  maxDelayMs: number;
+}
+
+const DEFAULT_RETRY: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+const NO_RETRY: RetryOptions = { ...DEFAULT_RETRY, retries: 0 };
+
+/** Chunked uploads keep trying for a couple of minutes through a dropped connection. */
+const RESUME_RETRY: RetryOptions = {
+  retries: 8,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+};
+
+interface RequestOptions extends RequestInit {
+  /** Human-readable description of the call, used in error messages. */
+  action: string;
+  /**
+   * Backoff policy. Only pass a retrying policy for idempotent requests;
+   * anything that creates state must use the default `NO_RETRY`.
+   */
+  retry?: RetryOptions;
 }
 
-interface ListRunsResponse {
-  ok: boolean;
-  nextCursor?: string;
-  runs: Run[];
+function backoffDelay(attempt: number, retry: RetryOptions, error: unknown): number {
+  if (error instanceof ApiError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, retry.maxDelayMs);
+  }
+  const exponential = retry.baseDelayMs * 2 ** attempt;
+  // Full jitter keeps many tabs from retrying in lockstep.
+  return Math.min(retry.maxDelayMs, Math.random() * exponential);
 }
 
-interface GetRunResponse {
-  ok: boolean;
-  run: Run;
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
-interface CreateRunResponse {
-  ok: boolean;
-  runId: string;
+/**
+ * Resolves to the in-browser mock backend when `VITE_MOCK_API=true`. The mock
+ * is loaded lazily so it never ends up in a production bundle.
+ */
+async function getFetch(): Promise<(input: string, init?: RequestInit) => Promise<Response>> {
+  if (!USE_MOCK) return fetch;
+  const { mockFetch } = await import('./mock/server');
+  return mockFetch;
 }
 
-function getHeaders(): HeadersInit {
-  return {
-    'x-watchtower-secret': SECRET,
-  };
+/**
+ * Performs a single fetch against the API and maps every failure onto the
+ * `ApiError` hierarchy. Aborts are rethrown untouched so callers can tell
+ * a cancellation from a network drop.
+ */
+async function send(path: string, init: RequestOptions): Promise<Response> {
+  const { action, retry: _retry, headers, ...rest } = init;
+  const doFetch = await getFetch();
+  let response: Response;
+  try {
+    response = await doFetch(`${API_URL}${path}`, {
+      ...rest,
+      headers: { ...getHeaders(), ...headers },
+    });
+  } catch (error) {
+    if (init.signal?.aborted) throw error;
+    throw new NetworkError(`Failed to ${action}: network request failed`, { cause: error });
+  }
+
+  if (!response.ok) {
+    throw await errorFromResponse(response, action);
+  }
+  return response;
+}
+
+async function request(path: string, init: RequestOptions): Promise<Response> {
+  const retry = init.retry ?? NO_RETRY;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await send(path, init);
+    } catch (error) {
+      if (attempt >= retry.retries || !isRetryableError(error)) throw error;
+      await sleep(backoffDelay(attempt, retry, error), init.signal);
+    }
+  }
 }
 
-export async function listRuns(limit?: number, cursor?: string): Promise<ListRunsResponse> {
-  const params = new URLSearchParams();
+/**
+ * Fetches JSON and validates it against `schema`, so that a backend which
+ * drifted from the contract fails loudly here instead of deep inside a page.
+ */
+async function requestJson<S extends z.ZodTypeAny>(path: string, schema: S, init: RequestOptions): Promise<z.infer<S>> {
+  const response = await request(path, init);
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch (error) {
+    throw new ContractError(`Failed to ${init.action}: response is not valid JSON`, [], {
+      status: response.status,
+      cause: error,
+    });
+  }
+
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }));
+    throw new ContractError(`Failed to ${init.action}: backend contract violation`, issues, {
+      status: response.status,
+      details: body,
+    });
+  }
+  return result.data;
+}
+
+/** Lists runs matching `filters`, newest first unless they say otherwise. */
+export async function listRuns(
+  limit?: number,
+  cursor?: string,
+  filters: RunFilters = {},
+  signal?: AbortSignal,
+): Promise<ListRunsResponse> {
+  const params = runFilterParams(filters);
   if (limit) params.append('limit', limit.toString());
   if (cursor) params.append('cursor', cursor);
-  
-  const url = `${API_URL}/runs${params.toString() ? '?' + params.toString() : ''}`;
-  const response = await fetch(url, {
-    headers: getHeaders(),
+
+  const query = params.toString() ? '?' + params.toString() : '';
+  return requestJson(`/runs${query}`, ListRunsResponseSchema, {
+    action: 'list runs',
+    retry: DEFAULT_RETRY,
+    signal,
   });
-  
-  if (!response.ok) {
-    throw new Error(`Failed to list runs: ${response.statusText}`);
-  }
-  
-  return response.json();
 }
 
-export async function getRun(runId: string): Promise<GetRunResponse> {
-  const response = await fetch(`${API_URL}/runs/${runId}`, {
-    headers: getHeaders(),
+/**
+ * Every run matching `filters`, typically a date range, with its findings
+ * counted per type. Not paginated: the dashboard needs all of them at once.
+ */
+export async function getTrends(filters: RunFilters, signal?: AbortSignal): Promise<TrendsResponse> {
+  const params = runFilterParams({ ...filters, sort: undefined, order: undefined });
+  const query = params.toString() ? '?' + params.toString() : '';
+  return requestJson(`/trends${query}`, TrendsResponseSchema, {
+    action: 'load trends',
+    retry: DEFAULT_RETRY,
+    signal,
+  });
+}
+
+export async function getRun(runId: string, signal?: AbortSignal): Promise<GetRunResponse> {
+  return requestJson(`/runs/${encodeURIComponent(runId)}`, GetRunResponseSchema, {
+    action: 'get run',
+    retry: DEFAULT_RETRY,
+    signal,
   });
-  
-  if (!response.ok) {
-    throw new Error(`Failed to get run: ${response.statusText}`);
-  }
-  
-  return response.json();
 }
 
-export async function createRunFromRows(rows: any[], explain?: boolean): Promise<CreateRunResponse> {
-  const response = await fetch(`${API_URL}/run`, {
+/** Spend per day over all of the run's analyzed rows, for charting findings against it. */
+export async function getRunCosts(runId: string, signal?: AbortSignal): Promise<RunCostsResponse> {
+  return requestJson(`/runs/${encodeURIComponent(runId)}/costs`, RunCostsResponseSchema, {
+    action: 'get run costs',
+    retry: DEFAULT_RETRY,
+    signal,
+  });
+}
+
+/**
+ * `source` labels the run in the runs table, e.g. the name of the file the
+ * rows were read from. The backend falls back to "json" when it is omitted.
+ */
+export async function createRunFromRows(rows: Row[], explain?: boolean, source?: string): Promise<CreateRunResponse> {
+  return requestJson('/run', CreateRunResponseSchema, {
+    action: 'create run',
     method: 'POST',
     headers: {
-      ...getHeaders(),
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ rows, explain }),
+    body: JSON.stringify({ rows, explain, source }),
   });
-  
-  if (!response.ok) {
-    throw new Error(`Failed to create run: ${response.statusText}`);
-  }
-  
-  return response.json();
 }
 
 export async function createRunFromFile(file: File, explain?: boolean): Promise<CreateRunResponse> {
@@ -93,29 +251,493 @@ export async function createRunFromFile(file: File, explain?: boolean): Promise<
   if (explain !== undefined) {
     formData.append('explain', explain.toString());
   }
-  
-  const response = await fetch(`${API_URL}/run`, {
+
+  return requestJson('/run', CreateRunResponseSchema, {
+    action: 'create run from file',
     method: 'POST',
-    headers: getHeaders(),
     body: formData,
   });
-  
-  if (!response.ok) {
-    throw new Error(`Failed to create run from file: ${response.statusText}`);
+}
+
+/** Fields of a run that can be changed after it was created. `null` clears a field. */
+interface RunUpdate {
+  name?: string | null;
+  description?: string | null;
+  archived?: boolean;
+}
+
+export async function updateRun(runId: string, update: RunUpdate): Promise<GetRunResponse> {
+  return requestJson(`/runs/${encodeURIComponent(runId)}`, GetRunResponseSchema, {
+    action: 'update run',
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(update),
+  });
+}
+
+export async function deleteRun(runId: string): Promise<void> {
+  await request(`/runs/${encodeURIComponent(runId)}`, {
+    action: 'delete run',
+    method: 'DELETE',
+  });
+}
+
+/** Triage fields of a finding. `null` clears the assignee or notes. */
+interface FindingUpdate {
+  status?: FindingStatus;
+  assignee?: string | null;
+  notes?: string | null;
+}
+
+/**
+ * Applies the same triage change to several findings of a run. Findings have
+ * no ids of their own; they are addressed by their position in `run.findings`,
+ * which never changes once a run has been analyzed.
+ */
+export async function updateFindings(runId: string, positions: number[], update: FindingUpdate): Promise<UpdateFindingsResponse> {
+  return requestJson(`/runs/${encodeURIComponent(runId)}/findings`, UpdateFindingsResponseSchema, {
+    action: 'update findings',
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ positions, ...update }),
+  });
+}
+
+/** A suppression rule as sent to the backend. `null` clears the reason or expiry. */
+interface SuppressionInput {
+  type: string;
+  match: Row;
+  reason?: string | null;
+  expiresAt?: string | null;
+}
+
+/** Suppression rules, newest first, each with the number of findings it hides across all runs. */
+export async function listSuppressions(signal?: AbortSignal): Promise<ListSuppressionsResponse> {
+  return requestJson('/suppressions', ListSuppressionsResponseSchema, {
+    action: 'list suppressions',
+    retry: DEFAULT_RETRY,
+    signal,
+  });
+}
+
+export async function createSuppression(input: SuppressionInput): Promise<SuppressionResponse> {
+  return requestJson('/suppressions', SuppressionResponseSchema, {
+    action: 'create suppression',
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function updateSuppression(id: string, input: Partial<SuppressionInput>): Promise<SuppressionResponse> {
+  return requestJson(`/suppressions/${encodeURIComponent(id)}`, SuppressionResponseSchema, {
+    action: 'update suppression',
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function deleteSuppression(id: string): Promise<void> {
+  await request(`/suppressions/${encodeURIComponent(id)}`, {
+    action: 'delete suppression',
+    method: 'DELETE',
+  });
+}
+
+/*
+ * Explanations and follow-up answers stream as server-sent events:
+ *
+ *   POST   /runs/:id/explanation    { positions? } → stream; the finished text is stored as `run.explanation`
+ *   GET    /runs/:id/chat           → { messages }, oldest first
+ *   POST   /runs/:id/chat           { question } → stream; question and answer join the history
+ *   DELETE /runs/:id/chat           clears the history
+ *
+ * Each `message` event carries `{ text }`, the next piece of the answer. A
+ * `done` event ends the stream; an `error` event carries `{ code, message }`
+ * like an error body. Streams are never retried: a second attempt would
+ * start the answer over.
+ */
+
+/** Called with each piece of a streamed answer as it arrives. */
+type TextHandler = (text: string) => void;
+
+function parseEventData(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return undefined;
   }
-  
-  return response.json();
 }
 
-export async function exportRunCsv(runId: string): Promise<void> {
-  const response = await fetch(`${API_URL}/runs/${runId}/export.csv`, {
-    headers: getHeaders(),
+/** Reads a streamed answer, passing each piece to `onText`, and resolves to the whole text. */
+async function requestStream(path: string, init: RequestOptions, onText: TextHandler): Promise<string> {
+  const response = await request(path, {
+    ...init,
+    headers: { Accept: 'text/event-stream', ...init.headers },
   });
-  
-  if (!response.ok) {
-    throw new Error(`Failed to export CSV: ${response.statusText}`);
+  if (!response.body) {
+    throw new ContractError(`Failed to ${init.action}: response has no body`, [], { status: response.status });
   }
-  
+
+  let text = '';
+  try {
+    for await (const event of readEventStream(response.body)) {
+      const data = parseEventData(event.data);
+      if (event.event === 'done') return text;
+      if (event.event === 'error') {
+        const error = (data ?? {}) as { code?: string; message?: string };
+        throw new StreamError(`Failed to ${init.action}: ${error.message || 'the stream failed'}`, {
+          status: response.status,
+          code: error.code,
+          details: data,
+        });
+      }
+      if (event.event !== 'message') continue;
+
+      const chunk = StreamChunkSchema.safeParse(data);
+      if (!chunk.success) {
+        throw new ContractError(`Failed to ${init.action}: backend contract violation`, [
+          { path: 'text', message: 'Expected every streamed event to carry text' },
+        ], { status: response.status, details: event.data });
+      }
+      text += chunk.data.text;
+      onText(chunk.data.text);
+    }
+  } catch (error) {
+    if (init.signal?.aborted || error instanceof ApiError) throw error;
+    throw new NetworkError(`Failed to ${init.action}: the stream was interrupted`, { cause: error });
+  }
+  throw new NetworkError(`Failed to ${init.action}: the stream ended before the answer was complete`);
+}
+
+interface ExplainOptions {
+  /** Explain only these findings, by position in `run.findings`. */
+  positions?: number[];
+  signal?: AbortSignal;
+}
+
+/**
+ * Generates a new explanation of the run's findings, replacing any previous
+ * one once it completes. Works for any run, whether or not it was created
+ * with `explain`.
+ */
+export async function streamExplanation(runId: string, onText: TextHandler, options: ExplainOptions = {}): Promise<string> {
+  const { positions, signal } = options;
+  return requestStream(
+    `/runs/${encodeURIComponent(runId)}/explanation`,
+    {
+      action: 'explain run',
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ positions }),
+      signal,
+    },
+    onText,
+  );
+}
+
+export async function getChat(runId: string, signal?: AbortSignal): Promise<ChatResponse> {
+  return requestJson(`/runs/${encodeURIComponent(runId)}/chat`, ChatResponseSchema, {
+    action: 'load conversation',
+    retry: DEFAULT_RETRY,
+    signal,
+  });
+}
+
+/** Asks a follow-up question about the run's findings; the backend answers with the history so far in mind. */
+export async function askAboutRun(runId: string, question: string, onText: TextHandler, signal?: AbortSignal): Promise<string> {
+  return requestStream(
+    `/runs/${encodeURIComponent(runId)}/chat`,
+    {
+      action: 'answer question',
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ question }),
+      signal,
+    },
+    onText,
+  );
+}
+
+export async function clearChat(runId: string): Promise<void> {
+  await request(`/runs/${encodeURIComponent(runId)}/chat`, {
+    action: 'clear conversation',
+    method: 'DELETE',
+  });
+}
+
+/*
+ * Chunked upload protocol, used for files too large for a single request:
+ *
+ *   POST   /uploads                 { fileName, size, contentType } → session
+ *   GET    /uploads/:id             → session, `offset` = bytes received so far
+ *   PUT    /uploads/:id             raw bytes, `Upload-Offset` header → { offset }
+ *   POST   /uploads/:id/complete    { explain, source, mapping | format, sheet } → { runId }
+ *   DELETE /uploads/:id             discards a session
+ *
+ * A chunk sent at the wrong offset is rejected with 409 and code
+ * `offset_mismatch`; the client then re-reads the offset and continues from
+ * there. Sessions survive dropped connections, which is what makes resuming
+ * possible.
+ */
+
+export async function startUpload(file: File, signal?: AbortSignal): Promise<UploadSession> {
+  return requestJson('/uploads', UploadSessionSchema, {
+    action: 'start upload',
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ fileName: file.name, size: file.size, contentType: file.type || undefined }),
+    signal,
+  });
+}
+
+export async function getUploadStatus(uploadId: string, signal?: AbortSignal): Promise<UploadSession> {
+  return requestJson(`/uploads/${encodeURIComponent(uploadId)}`, UploadSessionSchema, {
+    action: 'get upload status',
+    retry: DEFAULT_RETRY,
+    signal,
+  });
+}
+
+async function uploadChunk(uploadId: string, offset: number, chunk: Blob, signal?: AbortSignal): Promise<number> {
+  const result = await requestJson(`/uploads/${encodeURIComponent(uploadId)}`, UploadChunkResponseSchema, {
+    action: 'upload chunk',
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/offset+octet-stream',
+      'Upload-Offset': String(offset),
+    },
+    body: chunk,
+    signal,
+  });
+  return result.offset;
+}
+
+interface CompleteUploadOptions {
+  explain?: boolean;
+  source?: string;
+  /** Manual column mapping, applied by the backend while reading the file. */
+  mapping?: ColumnMapping;
+  /** Id of a recognized provider format from `src/lib/importers.ts`. */
+  format?: string;
+  /** Workbook sheet to read; the first one when unset. */
+  sheet?: string;
+}
+
+export async function completeUpload(
+  uploadId: string,
+  options: CompleteUploadOptions,
+  signal?: AbortSignal,
+): Promise<CreateRunResponse> {
+  return requestJson(`/uploads/${encodeURIComponent(uploadId)}/complete`, CreateRunResponseSchema, {
+    action: 'create run from upload',
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(options),
+    signal,
+  });
+}
+
+export async function abortUpload(uploadId: string): Promise<void> {
+  await request(`/uploads/${encodeURIComponent(uploadId)}`, {
+    action: 'cancel upload',
+    method: 'DELETE',
+  });
+}
+
+interface UploadProgress {
+  uploaded: number;
+  total: number;
+}
+
+interface ChunkedUploadOptions extends CompleteUploadOptions {
+  /** Continue an existing session instead of starting a new one. */
+  uploadId?: string;
+  signal?: AbortSignal;
+  onSession?: (uploadId: string) => void;
+  onProgress?: (progress: UploadProgress) => void;
+  /** Called before each attempt to recover from a failed chunk. */
+  onReconnect?: (attempt: number, error: unknown) => void;
+}
+
+function waitForOnline(signal?: AbortSignal): Promise<void> {
+  if (typeof navigator === 'undefined' || navigator.onLine) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const onOnline = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    };
+    const onAbort = () => {
+      window.removeEventListener('online', onOnline);
+      reject(signal.reason);
+    };
+    window.addEventListener('online', onOnline, { once: true });
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Uploads `file` chunk by chunk and turns it into a run. Aborting `signal`
+ * stops after the current chunk without discarding the session, so calling
+ * again with the same `uploadId` resumes where it left off; use
+ * `abortUpload` to discard it. Failed chunks are retried with backoff after
+ * re-reading the server's offset.
+ */
+export async function uploadFileInChunks(file: File, options: ChunkedUploadOptions = {}): Promise<CreateRunResponse> {
+  const { uploadId, signal, onSession, onProgress, onReconnect, ...complete } = options;
+
+  const session = uploadId ? await getUploadStatus(uploadId, signal) : await startUpload(file, signal);
+  onSession?.(session.uploadId);
+
+  let offset = session.offset;
+  let failures = 0;
+  onProgress?.({ uploaded: offset, total: file.size });
+
+  while (offset < file.size) {
+    const chunk = file.slice(offset, offset + session.chunkSize);
+    try {
+      offset = await uploadChunk(session.uploadId, offset, chunk, signal);
+      failures = 0;
+      onProgress?.({ uploaded: offset, total: file.size });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const mismatch = error instanceof ApiError && error.code === 'offset_mismatch';
+      if (!mismatch && !isRetryableError(error)) throw error;
+      if (++failures > RESUME_RETRY.retries) throw error;
+
+      onReconnect?.(failures, error);
+      if (!mismatch) {
+        await waitForOnline(signal);
+        await sleep(backoffDelay(failures - 1, RESUME_RETRY, error), signal);
+      }
+      offset = (await getUploadStatus(session.uploadId, signal)).offset;
+      onProgress?.({ uploaded: offset, total: file.size });
+    }
+  }
+
+  return completeUpload(session.uploadId, complete, signal);
+}
+
+/*
+ * Changes to runs, whoever makes them, are pushed as server-sent events:
+ *
+ *   GET /runs/events    → stream of `created` and `updated` events carrying `{ run }`
+ *                         as `GET /runs` lists it, and `deleted` events carrying `{ id }`
+ *
+ * Every event has an id. A reconnect sends the last one as `Last-Event-ID`
+ * and the backend replays what was missed, or sends a `reset` event when it
+ * no longer can. Comment lines keep an idle connection open.
+ */
+
+const RUN_EVENT_TYPES = RunEventSchema.options.map((option) => option.shape.type.value as string);
+
+/** Reconnects never give up while the page is open; the delay tops out at half a minute. */
+const LIVE_RETRY: RetryOptions = {
+  retries: Infinity,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+};
+
+interface RunEventsOptions {
+  signal: AbortSignal;
+  /** Called each time the stream is established, including after a reconnect. */
+  onConnect?: () => void;
+  /** Called before each attempt to reconnect, with the error that ended the stream. */
+  onReconnect?: (attempt: number, error: unknown) => void;
+}
+
+/** Reads run events until the stream ends, which is always an error: the subscription is meant to stay open. */
+async function readRunEvents(
+  response: Response,
+  onEvent: (event: RunEvent) => void,
+  onId: (id: string) => void,
+): Promise<never> {
+  const action = 'receive run updates';
+  if (!response.body) {
+    throw new ContractError(`Failed to ${action}: response has no body`, [], { status: response.status });
+  }
+  try {
+    for await (const event of readEventStream(response.body)) {
+      if (event.id) onId(event.id);
+      // Event types added to the backend later are skipped rather than ending the subscription.
+      if (!RUN_EVENT_TYPES.includes(event.event)) continue;
+      const data = parseEventData(event.data);
+      const parsed = RunEventSchema.safeParse({ ...(typeof data === 'object' ? data : {}), type: event.event });
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+        throw new ContractError(`Failed to ${action}: backend contract violation`, issues, {
+          status: response.status,
+          details: event.data,
+        });
+      }
+      onEvent(parsed.data);
+    }
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    throw new NetworkError(`Failed to ${action}: the stream was interrupted`, { cause: error });
+  }
+  throw new NetworkError(`Failed to ${action}: the backend closed the stream`);
+}
+
+/**
+ * Passes every change to a run to `onEvent` until `signal` aborts, then
+ * resolves. Dropped connections are re-established with backoff, resuming
+ * after the last event received; errors that a retry cannot fix, like a
+ * backend without this endpoint, reject instead.
+ */
+export async function subscribeToRuns(onEvent: (event: RunEvent) => void, options: RunEventsOptions): Promise<void> {
+  const { signal, onConnect, onReconnect } = options;
+  let lastEventId: string | undefined;
+  let failures = 0;
+
+  while (!signal.aborted) {
+    try {
+      const response = await send('/runs/events', {
+        action: 'subscribe to run updates',
+        headers: { Accept: 'text/event-stream', ...(lastEventId && { 'Last-Event-ID': lastEventId }) },
+        signal,
+      });
+      failures = 0;
+      onConnect?.();
+      await readRunEvents(response, onEvent, (id) => (lastEventId = id));
+    } catch (error) {
+      if (signal.aborted) return;
+      if (!isRetryableError(error)) throw error;
+
+      onReconnect?.(++failures, error);
+      try {
+        await waitForOnline(signal);
+        await sleep(backoffDelay(failures - 1, LIVE_RETRY, error), signal);
+      } catch {
+        return;
+      }
+    }
+  }
+}
+
+export async function exportRunCsv(runId: string): Promise<void> {
+  const response = await request(`/runs/${encodeURIComponent(runId)}/export.csv`, {
+    action: 'export CSV',
+    retry: DEFAULT_RETRY,
+  });
+
   const blob = await response.blob();
   const url = window.URL.createObjectURL(blob);
   const a = document.createElement('a');
@@ -127,4 +749,39 @@ export async function exportRunCsv(runId: string): Promise<void> {
   document.body.removeChild(a);
 }
 
-export type { Run, Finding, ListRunsResponse, GetRunResponse, CreateRunResponse };
+export {
+  ApiError,
+  AuthError,
+  ValidationError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  StreamError,
+  NetworkError,
+  ContractError,
+  describeError,
+} from './errors';
+export type {
+  Run,
+  RunStatus,
+  Finding,
+  FindingStatus,
+  Row,
+  Suppression,
+  DailyCost,
+  ListRunsResponse,
+  GetRunResponse,
+  RunCostsResponse,
+  RunTrend,
+  TrendsResponse,
+  CreateRunResponse,
+  UpdateFindingsResponse,
+  ListSuppressionsResponse,
+  SuppressionResponse,
+  ChatMessage,
+  ChatResponse,
+  RunEvent,
+  UploadSession,
+} from './schemas';
+export type { RetryOptions, UploadProgress, RunUpdate, FindingUpdate, SuppressionInput, TextHandler, ExplainOptions, RunEventsOptions };
+export type { RunFilters, RunSortField, SortOrder } from './run-filters';
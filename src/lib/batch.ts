@@ -0,0 +1,55 @@
+import { detectFormat } from './importers';
+import { applyMapping, CANONICAL_FIELDS, initialMapping, missingRequiredFields, type ColumnMapping } from './mapping';
+import type { Row } from './schemas';
+import type { LoadedUpload } from './uploads';
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight. Failures
+ * are the worker's business: it should catch and record its own errors.
+ */
+export async function mapWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+export interface AutoPlan {
+  /** How the rows will be interpreted, for display. */
+  label: string;
+  buildRows: (rows: Row[]) => Row[];
+  serverOptions: { mapping: ColumnMapping } | { format: string };
+}
+
+/**
+ * Non-interactive version of the new-run mapping step, for batch uploads:
+ * a recognized provider format, else a matching saved profile, else name
+ * suggestions, as long as they cover the required fields.
+ */
+export function autoPlan(upload: LoadedUpload): AutoPlan {
+  const columns = upload.table.headers;
+  const format = detectFormat(columns);
+  if (format) {
+    return { label: format.label, buildRows: (rows) => rows.map(format.normalize), serverOptions: { format: format.id } };
+  }
+
+  const { mapping, profile } = initialMapping(columns);
+  const missing = missingRequiredFields(mapping);
+  if (missing.length > 0) {
+    const labels = missing.map((key) => CANONICAL_FIELDS.find((field) => field.key === key)?.label);
+    throw new Error(`Could not map ${labels.join(', ')}; upload this file on its own to map its columns`);
+  }
+  return {
+    label: profile ? `profile "${profile.name}"` : 'suggested mapping',
+    buildRows: (rows) => applyMapping(rows, mapping),
+    serverOptions: { mapping },
+  };
+}
@@ -0,0 +1,87 @@
+import type { Finding, Row, Run } from './schemas';
+
+/**
+ * Canonical fields that identify a billing line across exports. Date and cost
+ * are left out on purpose: the same resource shows up in next week's export
+ * under a new date, and a persisting spike usually changes amount.
+ */
+const IDENTITY_FIELDS = ['account_id', 'service', 'resource_id'];
+
+/**
+ * A key for the row behind a finding that survives re-exports, where row
+ * positions shift. Rows without any identity field fall back to their full
+ * content, and findings without a row to their reason.
+ */
+export function rowKey(finding: Finding): string {
+  const row = finding.row;
+  if (!row) return `reason:${finding.reason}`;
+  const identity = IDENTITY_FIELDS.filter((field) => row[field] !== undefined && row[field] !== '');
+  const fields = identity.length > 0 ? identity : Object.keys(row).sort();
+  return JSON.stringify(fields.map((field) => [field, row[field]]));
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface PersistingFinding {
+  before: Finding;
+  after: Finding;
+  /** Row fields whose values differ; empty when the row is unchanged. */
+  changes: FieldChange[];
+}
+
+export interface RunComparison {
+  added: Finding[];
+  resolved: Finding[];
+  persisting: PersistingFinding[];
+  rowCountDelta: number;
+  coverageAdded: string[];
+  coverageRemoved: string[];
+}
+
+/** Changed row fields, the date first since it moves on in almost every re-export. */
+function diffRows(before: Row = {}, after: Row = {}): FieldChange[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return fields
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .sort((a, b) => Number(b === 'date') - Number(a === 'date'))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+/**
+ * Matches the findings of `base` against those of `next` by type and row
+ * key. Keys can repeat (e.g. several duplicate charges of one line), so
+ * matching pairs them up in order and leaves the surplus on either side as
+ * resolved or new.
+ */
+export function compareRuns(base: Run, next: Run): RunComparison {
+  const remaining = new Map<string, Finding[]>();
+  for (const finding of base.findings ?? []) {
+    const key = `${finding.type}|${rowKey(finding)}`;
+    const list = remaining.get(key);
+    if (list) list.push(finding);
+    else remaining.set(key, [finding]);
+  }
+
+  const added: Finding[] = [];
+  const persisting: PersistingFinding[] = [];
+  for (const finding of next.findings ?? []) {
+    const before = remaining.get(`${finding.type}|${rowKey(finding)}`)?.shift();
+    if (before) persisting.push({ before, after: finding, changes: diffRows(before.row ?? {}, finding.row ?? {}) });
+    else added.push(finding);
+  }
+
+  const baseCoverage = base.coverage ?? [];
+  const nextCoverage = next.coverage ?? [];
+  return {
+    added,
+    resolved: [...remaining.values()].flat().sort((a, b) => (a.index ?? 0) - (b.index ?? 0)),
+    persisting,
+    rowCountDelta: (next.rowCount ?? 0) - (base.rowCount ?? 0),
+    coverageAdded: nextCoverage.filter((key) => !baseCoverage.includes(key)),
+    coverageRemoved: baseCoverage.filter((key) => !nextCoverage.includes(key)),
+  };
+}
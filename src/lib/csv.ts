@@ -0,0 +1,205 @@
+import type { Row } from './schemas';
+import { inferColumnType, type ParseError, type ParsedTable } from './table';
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export interface ParsedCsv extends ParsedTable {
+  delimiter: CsvDelimiter;
+}
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+const MAX_ERRORS = 50;
+
+/**
+ * Picks the delimiter that splits the first lines most consistently. Quoted
+ * sections are skipped so a comma inside `"1,234"` does not count.
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const perLine: Record<string, number>[] = [];
+  let current: Record<string, number> = {};
+  let hasContent = false;
+  let quoted = false;
+
+  for (let i = 0; i < text.length && perLine.length < 10; i++) {
+    const char = text[i];
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && (char === '\n' || char === '\r')) {
+      if (hasContent) perLine.push(current);
+      current = {};
+      hasContent = false;
+      continue;
+    } else if (!quoted && DELIMITERS.includes(char as CsvDelimiter)) {
+      current[char] = (current[char] ?? 0) + 1;
+    }
+    hasContent = true;
+  }
+  if (hasContent && perLine.length < 10) perLine.push(current);
+
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+  for (const delimiter of DELIMITERS) {
+    // A delimiter that appears on every line wins over one that is merely
+    // frequent on a few of them.
+    const score = Math.min(...perLine.map((counts) => counts[delimiter] ?? 0));
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  if (bestScore > 0) return best;
+
+  // Ragged sample: fall back to whichever delimiter is most common overall.
+  let bestTotal = 0;
+  for (const delimiter of DELIMITERS) {
+    const total = perLine.reduce((sum, counts) => sum + (counts[delimiter] ?? 0), 0);
+    if (total > bestTotal) {
+      best = delimiter;
+      bestTotal = total;
+    }
+  }
+  return best;
+}
+
+/**
+ * RFC 4180 parser with the usual real-world extensions: a leading BOM,
+ * CRLF/LF/CR line endings, `;` or tab delimiters and newlines inside quoted
+ * fields. Problems are collected with their line and column instead of
+ * throwing, so the caller can show all of them at once.
+ */
+export function parseCsv(input: string, options: { delimiter?: CsvDelimiter; typeSampleSize?: number } = {}): ParsedCsv {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+  const delimiter = options.delimiter ?? detectDelimiter(text);
+  const errors: ParseError[] = [];
+  const addError = (error: ParseError) => {
+    if (errors.length < MAX_ERRORS) errors.push(error);
+  };
+
+  const rows: { values: string[]; line: number }[] = [];
+  let values: string[] = [];
+  let field = '';
+  let quoted = false;
+  let fieldWasQuoted = false;
+  let line = 1;
+  let lineStart = 0;
+  let recordLine = 1;
+  let quoteLine = 0;
+  let quoteColumn = 0;
+
+  const endField = () => {
+    values.push(field);
+    field = '';
+    fieldWasQuoted = false;
+  };
+  const endRecord = () => {
+    endField();
+    if (values.length > 1 || values[0] !== '') rows.push({ values, line: recordLine });
+    values = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+          const after = text[i + 1];
+          if (after !== undefined && after !== delimiter && after !== '\n' && after !== '\r') {
+            addError({ line, column: i + 2 - lineStart, message: 'Unexpected character after closing quote' });
+          }
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) {
+          line++;
+          lineStart = i + 1;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      if (field === '' && !fieldWasQuoted) {
+        quoted = true;
+        fieldWasQuoted = true;
+        quoteLine = line;
+        quoteColumn = i + 1 - lineStart;
+      } else {
+        addError({ line, column: i + 1 - lineStart, message: 'Quote inside an unquoted field' });
+        field += char;
+      }
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      lineStart = i + 1;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    addError({ line: quoteLine, column: quoteColumn, message: 'Unterminated quoted field' });
+  }
+  if (field !== '' || values.length > 0 || fieldWasQuoted) endRecord();
+
+  const [headerRow, ...dataRows] = rows;
+  if (!headerRow) {
+    addError({ line: 1, column: 1, message: 'File is empty' });
+    return { delimiter, headers: [], records: [], columns: [], errors };
+  }
+
+  const headers = headerRow.values.map((header) => header.trim());
+  const seen = new Set<string>();
+  headers.forEach((header, idx) => {
+    const column = headerRow.values.slice(0, idx).reduce((sum, value) => sum + value.length + 1, 1);
+    if (header === '') {
+      addError({ line: headerRow.line, column, message: `Header ${idx + 1} is empty` });
+    } else if (seen.has(header)) {
+      addError({ line: headerRow.line, column, message: `Duplicate header "${header}"` });
+    }
+    seen.add(header);
+  });
+
+  for (const row of dataRows) {
+    if (row.values.length !== headers.length) {
+      addError({
+        line: row.line,
+        column: 1,
+        message: `Expected ${headers.length} fields but found ${row.values.length}`,
+      });
+    }
+  }
+
+  const records = dataRows.map((row) => row.values);
+  const sample = records.slice(0, options.typeSampleSize ?? 1000);
+  const columns = headers.map((name, idx) => ({
+    name,
+    type: inferColumnType(sample.map((record) => record[idx] ?? '')),
+  }));
+
+  errors.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { delimiter, headers, records, columns, errors };
+}
+
+/** One CSV field: quoted when it holds a delimiter, quote or line break; nested values become JSON. */
+export function formatCsvField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Writes rows as CSV with a header line. Columns default to every key that
+ * appears in any row, in order of first appearance; nested values become JSON.
+ */
+export function formatCsv(rows: Row[], headers = [...new Set(rows.flatMap((row) => Object.keys(row)))]): string {
+  const lines = [headers, ...rows.map((row) => headers.map((header) => row[header]))];
+  return lines.map((values) => values.map(formatCsvField).join(',')).join('\r\n') + '\r\n';
+}
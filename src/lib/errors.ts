@@ -0,0 +1,256 @@
+interface ApiErrorOptions {
+  status?: number;
+  code?: string;
+  details?: unknown;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error raised by `src/lib/api.ts`. `status` is the HTTP
+ * status (0 when the request never got a response) and `code` is the
+ * machine-readable code from the backend's error body, when it sent one.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+  readonly details?: unknown;
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.cause = options.cause;
+    this.status = options.status ?? 0;
+    this.code = options.code;
+    this.details = options.details;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  /** Whether repeating the same request could reasonably succeed. */
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+export class AuthError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'AuthError';
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'ValidationError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class RateLimitError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'RateLimitError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'ServerError';
+  }
+
+  get retryable(): boolean {
+    // 501 Not Implemented will not start working on a second attempt.
+    return this.status !== 501;
+  }
+}
+
+/**
+ * An `error` event in the middle of a streamed answer. The response itself
+ * succeeded, so its status says nothing; the event's message is the reason.
+ */
+export class StreamError extends ServerError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'StreamError';
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message: string, options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+interface ContractIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * The backend answered successfully but the body did not match the schema in
+ * `src/lib/schemas.ts`. `issues` lists every offending field by path, e.g.
+ * `run.findings.3.type`.
+ */
+export class ContractError extends ApiError {
+  readonly issues: ContractIssue[];
+
+  constructor(message: string, issues: ContractIssue[], options?: ApiErrorOptions) {
+    super(message, options);
+    this.name = 'ContractError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Reads `Retry-After`, which may be either a number of seconds or an HTTP date.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * The backend answers errors with either `{ ok: false, error: "message" }` or
+ * `{ ok: false, error: { code, message, details } }`. Anything else (HTML from
+ * a proxy, an empty body) falls back to the status text.
+ */
+async function parseErrorBody(response: Response): Promise<{ message?: string; code?: string; details?: unknown }> {
+  let text: string;
+  try {
+    text = await response.text();
+  } catch {
+    return {};
+  }
+  if (!text) return {};
+
+  try {
+    const body = JSON.parse(text);
+    const error = body?.error;
+    if (typeof error === 'string') {
+      return { message: error, code: body.code, details: body.details };
+    }
+    if (error && typeof error === 'object') {
+      return { message: error.message, code: error.code, details: error.details };
+    }
+    if (typeof body?.message === 'string') {
+      return { message: body.message, code: body.code, details: body.details };
+    }
+    return {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Builds the matching `ApiError` subclass for a non-2xx response. `action`
+ * describes what was attempted, e.g. "list runs", and prefixes the message.
+ */
+export async function errorFromResponse(response: Response, action: string): Promise<ApiError> {
+  const body = await parseErrorBody(response);
+  const reason = body.message || response.statusText || `HTTP ${response.status}`;
+  const message = `Failed to ${action}: ${reason}`;
+  const options: ApiErrorOptions = {
+    status: response.status,
+    code: body.code,
+    details: body.details,
+    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+  };
+
+  switch (response.status) {
+    case 400:
+    case 409:
+    case 413:
+    case 415:
+    case 422:
+      return new ValidationError(message, options);
+    case 401:
+    case 403:
+      return new AuthError(message, options);
+    case 404:
+    case 410:
+      return new NotFoundError(message, options);
+    case 429:
+      return new RateLimitError(message, options);
+  }
+  if (response.status >= 500) {
+    return new ServerError(message, options);
+  }
+  return new ApiError(message, options);
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof ApiError && error.retryable;
+}
+
+/**
+ * User-facing title and description for any error thrown while talking to the
+ * backend. Pages use this instead of echoing `error.message` verbatim.
+ */
+export function describeError(error: unknown): { title: string; description: string } {
+  if (error instanceof AuthError) {
+    return {
+      title: 'Not authorized',
+      description: 'The backend rejected our credentials. Check VITE_WATCHTOWER_SECRET and reload.',
+    };
+  }
+  if (error instanceof ValidationError) {
+    return { title: 'Request rejected', description: error.message };
+  }
+  if (error instanceof NotFoundError) {
+    // Runs, suppressions and upload sessions all 404, so the message names what was attempted.
+    return { title: 'Not found', description: error.message };
+  }
+  if (error instanceof RateLimitError) {
+    const seconds = error.retryAfterMs !== undefined ? Math.ceil(error.retryAfterMs / 1000) : undefined;
+    return {
+      title: 'Too many requests',
+      description: seconds ? `The backend is rate limiting us. Try again in ${seconds}s.` : 'The backend is rate limiting us. Try again shortly.',
+    };
+  }
+  if (error instanceof StreamError) {
+    return { title: 'Server error', description: error.message };
+  }
+  if (error instanceof ServerError) {
+    return { title: 'Server error', description: `The backend failed to handle the request (HTTP ${error.status}).` };
+  }
+  if (error instanceof ContractError) {
+    const [first, ...rest] = error.issues;
+    const more = rest.length > 0 ? ` (and ${rest.length} more)` : '';
+    return {
+      title: 'Backend contract violation',
+      description: first
+        ? `Unexpected response from the backend at "${first.path || '(root)'}": ${first.message}${more}`
+        : error.message,
+    };
+  }
+  if (error instanceof NetworkError) {
+    return { title: 'Network error', description: 'Could not reach the backend. Check your connection and the API URL.' };
+  }
+  if (error instanceof Error) {
+    return { title: 'Something went wrong', description: error.message };
+  }
+  return { title: 'Something went wrong', description: 'Unknown error' };
+}
@@ -0,0 +1,49 @@
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+async function isGzip(file: Blob): Promise<boolean> {
+  const header = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  return header[0] === GZIP_MAGIC[0] && header[1] === GZIP_MAGIC[1];
+}
+
+/**
+ * Reads a file as UTF-8 text, transparently gunzipping it first when it is
+ * gzip-compressed (AWS delivers CUR files as `.csv.gz`). Detection uses the
+ * magic bytes rather than the extension, which is often lost on download.
+ */
+export async function readFileText(file: Blob): Promise<string> {
+  if (!(await isGzip(file))) return file.text();
+  const stream = file.stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+}
+
+/** File name without a trailing `.gz`, for display and as the run source. */
+export function displayName(file: File): string {
+  return file.name.replace(/\.gz$/i, '');
+}
+
+/**
+ * Reads roughly the first `maxChars` characters of a (possibly gzipped) file
+ * without loading the rest, cut back to the last complete line. `complete`
+ * tells whether that was in fact the whole file.
+ */
+export async function readFileHead(file: Blob, maxChars: number): Promise<{ text: string; complete: boolean }> {
+  let stream: ReadableStream<Uint8Array> = file.stream();
+  if (await isGzip(file)) stream = stream.pipeThrough(new DecompressionStream('gzip'));
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+
+  let text = '';
+  let complete = false;
+  while (text.length < maxChars) {
+    const { done, value } = await reader.read();
+    if (done) {
+      complete = true;
+      break;
+    }
+    text += value;
+  }
+  if (!complete) {
+    await reader.cancel();
+    text = text.slice(0, text.lastIndexOf('\n') + 1);
+  }
+  return { text, complete };
+}
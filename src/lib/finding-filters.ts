@@ -0,0 +1,141 @@
+import { findingImpact } from './findings';
+import { FINDING_STATUSES, type Finding, type FindingStatus } from './schemas';
+import { isSuppressed } from './suppressions';
+import { findingStatus } from './triage';
+
+/**
+ * View state for a run's findings table, kept in the page URL so that a link
+ * opens the same filtered view. Filtering happens in the browser: a run's
+ * findings all arrive with `getRun`.
+ */
+
+export const FINDING_SORT_FIELDS = ['index', 'type', 'reason', 'impact'] as const;
+
+export type FindingSortField = (typeof FINDING_SORT_FIELDS)[number];
+
+export interface FindingFilters {
+  /** Only these finding types; all types when unset. */
+  types?: string[];
+  /** Free text matched against the reason, the row's values, the assignee and notes. */
+  q?: string;
+  status?: FindingStatus;
+  /** Only findings whose row has this `date` (yyyy-mm-dd), `account_id` or `service`. */
+  date?: string;
+  account?: string;
+  service?: string;
+  /** Include findings hidden by a suppression rule. */
+  showSuppressed?: boolean;
+  groupByType?: boolean;
+  sort?: FindingSortField;
+  order?: 'asc' | 'desc';
+}
+
+/** A finding together with its position in `run.findings`, which identifies it. */
+export interface IndexedFinding {
+  finding: Finding;
+  position: number;
+}
+
+export function parseFindingFilters(params: URLSearchParams): FindingFilters {
+  const filters: FindingFilters = {};
+  const types = params.get('type')?.split(',').filter(Boolean);
+  if (types?.length) filters.types = types;
+  const q = params.get('q')?.trim();
+  if (q) filters.q = q;
+  const status = params.get('status');
+  if (FINDING_STATUSES.includes(status as FindingStatus)) filters.status = status as FindingStatus;
+  for (const key of ['date', 'account', 'service'] as const) {
+    const value = params.get(key);
+    if (value) filters[key] = value;
+  }
+  if (params.get('suppressed') === 'show') filters.showSuppressed = true;
+  if (params.get('group') === 'type') filters.groupByType = true;
+  const sort = params.get('sort');
+  if (FINDING_SORT_FIELDS.includes(sort as FindingSortField)) filters.sort = sort as FindingSortField;
+  const order = params.get('order');
+  if (order === 'asc' || order === 'desc') filters.order = order;
+  return filters;
+}
+
+export function writeFindingFilters(filters: FindingFilters, params = new URLSearchParams()): URLSearchParams {
+  const result = new URLSearchParams(params);
+  const values: Record<string, string | undefined> = {
+    type: filters.types?.length ? filters.types.join(',') : undefined,
+    q: filters.q || undefined,
+    status: filters.status,
+    date: filters.date,
+    account: filters.account,
+    service: filters.service,
+    suppressed: filters.showSuppressed ? 'show' : undefined,
+    group: filters.groupByType ? 'type' : undefined,
+    sort: filters.sort,
+    order: filters.order,
+  };
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined) result.delete(key);
+    else result.set(key, value);
+  }
+  return result;
+}
+
+function searchText(finding: Finding): string {
+  const values = Object.values(finding.row ?? {}).map((value) =>
+    typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value),
+  );
+  return [finding.reason, finding.assignee ?? '', finding.notes ?? '', ...values].join('\n').toLowerCase();
+}
+
+/** The row's value of a canonical field as text; dates are cut to the day. */
+export function rowField(finding: Finding, field: 'date' | 'account_id' | 'service'): string {
+  const value = finding.row?.[field];
+  if (value === undefined || value === null) return '';
+  return field === 'date' ? String(value).slice(0, 10) : String(value);
+}
+
+/** Applies suppression, type, status, row field and text filters, then sorts. Findings keep their original position. */
+export function filterFindings(findings: Finding[], filters: FindingFilters): IndexedFinding[] {
+  const q = filters.q?.toLowerCase();
+  const result = findings
+    .map((finding, position) => ({ finding, position }))
+    .filter(({ finding }) => filters.showSuppressed || !isSuppressed(finding))
+    .filter(({ finding }) => !filters.types || filters.types.includes(finding.type))
+    .filter(({ finding }) => !filters.status || findingStatus(finding) === filters.status)
+    .filter(({ finding }) => !filters.date || rowField(finding, 'date') === filters.date)
+    .filter(({ finding }) => !filters.account || rowField(finding, 'account_id') === filters.account)
+    .filter(({ finding }) => !filters.service || rowField(finding, 'service') === filters.service)
+    .filter(({ finding }) => !q || searchText(finding).includes(q));
+
+  const sort = filters.sort ?? 'index';
+  const direction = filters.order === 'desc' ? -1 : 1;
+  const value = ({ finding, position }: IndexedFinding): number | string => {
+    if (sort === 'index') return finding.index ?? position;
+    // Findings without a known impact rank below any amount. Amounts in
+    // different currencies are compared as they are.
+    if (sort === 'impact') return findingImpact(finding)?.amount ?? -1;
+    return finding[sort].toLowerCase();
+  };
+  return result.sort((a, b) => {
+    const left = value(a);
+    const right = value(b);
+    if (left < right) return -direction;
+    if (left > right) return direction;
+    return a.position - b.position;
+  });
+}
+
+/** Number of findings of each type, most frequent first. */
+export function countByType(findings: Finding[]): [string, number][] {
+  const counts = new Map<string, number>();
+  findings.forEach((finding) => counts.set(finding.type, (counts.get(finding.type) ?? 0) + 1));
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+/** Number of findings per value of a row field, most frequent first; rows without the field are left out. */
+export function countByField(findings: Finding[], field: 'date' | 'account_id' | 'service'): [string, number][] {
+  const counts = new Map<string, number>();
+  findings.forEach((finding) => {
+    const value = rowField(finding, field);
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  });
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
@@ -0,0 +1,114 @@
+import type { Finding } from './schemas';
+
+function valueText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Row fields that triggered `finding`. Backends that do not send `fields`
+ * get a best guess: the fields whose value is quoted in the reason, such as
+ * the resource id in "Resource i-0abc has no cost allocation tags".
+ */
+export function triggerFields(finding: Finding): string[] {
+  const row = finding.row ?? {};
+  if (finding.fields) return finding.fields.filter((field) => field in row);
+  return Object.entries(row)
+    .filter(([, value]) => {
+      const text = valueText(value);
+      return text.length >= 3 && finding.reason.includes(text);
+    })
+    .map(([field]) => field);
+}
+
+const FINDING_HASH = /^#finding-(\d+)$/;
+
+/**
+ * URL hash that scrolls RunDetail's table to a finding, by the number the
+ * table shows (`finding.index`, else its position), so references such as
+ * "[finding 12]" can be linked and shared.
+ */
+export function findingHash(index: number): string {
+  return `#finding-${index}`;
+}
+
+export function parseFindingHash(hash: string): number | null {
+  const match = hash.match(FINDING_HASH);
+  return match ? Number(match[1]) : null;
+}
+
+/** Estimated money at stake in a finding. */
+export interface Impact {
+  amount: number;
+  /** ISO 4217 code, when the backend or the row names one. */
+  currency?: string;
+}
+
+/** Reads a money amount from a row value, which CSV imports leave as text like "$1,234.50". */
+export function parseAmount(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  const parsed = Number(value.replace(/[$€£¥,\s]/g, ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * The backend's estimate when it sends one, otherwise the whole charge of
+ * the row's `cost` column. Credits and refunds count by their size.
+ */
+export function findingImpact(finding: Finding): Impact | undefined {
+  const row = finding.row ?? {};
+  const amount = finding.impact ?? parseAmount(row.cost);
+  if (amount === undefined || amount === null) return undefined;
+  const currency = finding.currency ?? (typeof row.currency === 'string' && row.currency.trim() ? row.currency.trim() : undefined);
+  return { amount: Math.abs(amount), currency: currency?.toUpperCase() };
+}
+
+/** Formats an amount in its currency, or as a plain number when the currency is unknown or invalid. */
+export function formatMoney(amount: number, currency?: string): string {
+  if (currency) {
+    try {
+      return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+    } catch {
+      // Not an ISO 4217 code; show the code after the number instead.
+      return `${formatMoney(amount)} ${currency}`;
+    }
+  }
+  return amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/** Total impact per currency; findings without a currency are summed under `''`. */
+export type ImpactTotals = Record<string, number>;
+
+export function sumImpact(findings: Finding[]): ImpactTotals {
+  const totals: ImpactTotals = {};
+  findings.forEach((finding) => {
+    const impact = findingImpact(finding);
+    if (!impact) return;
+    const key = impact.currency ?? '';
+    totals[key] = (totals[key] ?? 0) + impact.amount;
+  });
+  return totals;
+}
+
+/** Impact totals of each finding type. */
+export function impactByType(findings: Finding[]): Map<string, ImpactTotals> {
+  const groups = new Map<string, Finding[]>();
+  findings.forEach((finding) => {
+    const group = groups.get(finding.type);
+    if (group) group.push(finding);
+    else groups.set(finding.type, [finding]);
+  });
+  return new Map([...groups].map(([type, group]) => [type, sumImpact(group)]));
+}
+
+/**
+ * Amounts in different currencies cannot be added up, so each currency is
+ * listed on its own, largest first: "$1,200.00 + €300.00".
+ */
+export function formatTotals(totals: ImpactTotals): string {
+  return Object.entries(totals)
+    .sort((a, b) => b[1] - a[1])
+    .map(([currency, amount]) => formatMoney(amount, currency || undefined))
+    .join(' + ');
+}
@@ -0,0 +1,170 @@
+import type { CanonicalField } from './mapping';
+import type { Row } from './schemas';
+
+/**
+ * A recognized billing export layout. `detect` looks only at the column
+ * names; `normalize` turns one source row into the canonical row shape used
+ * by the column mapper, so both paths produce the same payload.
+ */
+export interface Importer {
+  id: string;
+  label: string;
+  detect: (columns: Set<string>) => boolean;
+  normalize: (row: Row) => Row;
+}
+
+type NormalizedRow = Partial<Record<CanonicalField, unknown>> & { provider: string };
+
+function text(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const result = String(value).trim();
+  return result === '' ? undefined : result;
+}
+
+function first(row: Row, ...columns: string[]): string | undefined {
+  for (const column of columns) {
+    const value = text(row[column]);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+function number(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value.replace(/,/g, ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/** Reduces the timestamps providers use to a plain `YYYY-MM-DD`. */
+function day(value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return value;
+  // Non-ISO dates such as Azure's MM/DD/YYYY parse as local midnight.
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
+
+/**
+ * Tags arrive as a JSON object (FOCUS, CUR 2.0), a JSON array of
+ * `{ key, value }` (GCP) or Azure's brace-less `"k": "v", ...` list.
+ */
+function parseTags(value: string | undefined): Record<string, string> {
+  if (value === undefined) return {};
+  const attempts = [value, `{${value}}`];
+  for (const attempt of attempts) {
+    try {
+      const parsed = JSON.parse(attempt);
+      if (Array.isArray(parsed)) {
+        return Object.fromEntries(parsed.filter((tag) => tag && tag.key).map((tag) => [String(tag.key), String(tag.value ?? '')]));
+      }
+      if (parsed && typeof parsed === 'object') {
+        return Object.fromEntries(Object.entries(parsed).map(([k, v]) => [k, String(v ?? '')]));
+      }
+    } catch {
+      // Try the next interpretation.
+    }
+  }
+  return {};
+}
+
+function compact(row: NormalizedRow): Row {
+  return Object.fromEntries(Object.entries(row).filter(([, value]) => value !== undefined));
+}
+
+const hasAll = (columns: Set<string>, ...names: string[]) => names.every((name) => columns.has(name));
+const hasAny = (columns: Set<string>, ...names: string[]) => names.some((name) => columns.has(name));
+
+/** FinOps Open Cost and Usage Specification, versions 1.0 through 1.2. */
+const focus: Importer = {
+  id: 'focus',
+  label: 'FOCUS 1.x',
+  detect: (columns) => hasAll(columns, 'BilledCost', 'ChargePeriodStart', 'BillingCurrency'),
+  normalize: (row) =>
+    compact({
+      provider: first(row, 'ProviderName', 'ServiceProviderName') ?? 'focus',
+      date: day(first(row, 'ChargePeriodStart')),
+      account_id: first(row, 'SubAccountId', 'BillingAccountId'),
+      service: first(row, 'ServiceName'),
+      cost: number(first(row, 'EffectiveCost', 'BilledCost')),
+      currency: first(row, 'BillingCurrency'),
+      resource_id: first(row, 'ResourceId', 'ResourceName'),
+      tags: parseTags(first(row, 'Tags')),
+    }),
+};
+
+/** AWS Cost and Usage Report, both the legacy `lineItem/...` and 2.0 layouts. */
+const awsCur: Importer = {
+  id: 'aws-cur',
+  label: 'AWS Cost and Usage Report',
+  detect: (columns) =>
+    hasAll(columns, 'lineItem/UnblendedCost', 'lineItem/UsageStartDate') ||
+    hasAll(columns, 'line_item_unblended_cost', 'line_item_usage_start_date'),
+  normalize: (row) => {
+    const legacyTags = Object.fromEntries(
+      Object.entries(row)
+        .filter(([key, value]) => key.startsWith('resourceTags/') && text(value) !== undefined)
+        .map(([key, value]) => [key.slice('resourceTags/'.length).replace(/^user:/, ''), String(value)]),
+    );
+    return compact({
+      provider: 'aws',
+      date: day(first(row, 'lineItem/UsageStartDate', 'line_item_usage_start_date')),
+      account_id: first(row, 'lineItem/UsageAccountId', 'line_item_usage_account_id'),
+      service: first(row, 'product/ProductName', 'product_product_name', 'lineItem/ProductCode', 'line_item_product_code'),
+      cost: number(first(row, 'lineItem/UnblendedCost', 'line_item_unblended_cost')),
+      currency: first(row, 'lineItem/CurrencyCode', 'line_item_currency_code'),
+      resource_id: first(row, 'lineItem/ResourceId', 'line_item_resource_id'),
+      tags: { ...legacyTags, ...parseTags(first(row, 'resource_tags')) },
+    });
+  },
+};
+
+/** Azure Cost Management exports (EA, MCA and pay-as-you-go layouts). */
+const azure: Importer = {
+  id: 'azure',
+  label: 'Azure Cost Management export',
+  detect: (columns) =>
+    hasAny(columns, 'MeterCategory', 'meterCategory') &&
+    hasAny(columns, 'CostInBillingCurrency', 'costInBillingCurrency', 'PreTaxCost', 'Cost', 'cost'),
+  normalize: (row) =>
+    compact({
+      provider: 'azure',
+      date: day(first(row, 'Date', 'date', 'UsageDateTime', 'UsageDate')),
+      account_id: first(row, 'SubscriptionId', 'subscriptionId', 'SubscriptionGuid'),
+      service: first(row, 'MeterCategory', 'meterCategory', 'ConsumedService', 'consumedService'),
+      cost: number(first(row, 'CostInBillingCurrency', 'costInBillingCurrency', 'PreTaxCost', 'Cost', 'cost')),
+      currency: first(row, 'BillingCurrencyCode', 'billingCurrency', 'BillingCurrency', 'Currency'),
+      resource_id: first(row, 'ResourceId', 'resourceId', 'InstanceId', 'InstanceName'),
+      tags: parseTags(first(row, 'Tags', 'tags')),
+    }),
+};
+
+/** GCP billing export from BigQuery, saved as CSV with dotted column names. */
+const gcp: Importer = {
+  id: 'gcp',
+  label: 'GCP billing export',
+  detect: (columns) => hasAll(columns, 'service.description', 'usage_start_time', 'cost'),
+  normalize: (row) =>
+    compact({
+      provider: 'gcp',
+      date: day(first(row, 'usage_start_time')),
+      account_id: first(row, 'project.id', 'billing_account_id'),
+      service: first(row, 'service.description'),
+      cost: number(first(row, 'cost')),
+      currency: first(row, 'currency'),
+      resource_id: first(row, 'resource.global_name', 'resource.name'),
+      tags: parseTags(first(row, 'labels')),
+    }),
+};
+
+/**
+ * Checked in order. FOCUS comes first because providers' FOCUS exports also
+ * carry some of their native columns.
+ */
+export const IMPORTERS: Importer[] = [focus, awsCur, azure, gcp];
+
+export function detectFormat(columns: string[]): Importer | undefined {
+  const available = new Set(columns);
+  return IMPORTERS.find((importer) => importer.detect(available));
+}
@@ -0,0 +1,90 @@
+import type { Row } from './schemas';
+import type { ParseError } from './table';
+
+export type JsonFormat = 'array' | 'ndjson';
+
+export interface ParsedJson {
+  format: JsonFormat;
+  rows: Row[];
+  errors: ParseError[];
+}
+
+const MAX_ERRORS = 50;
+
+function isRow(value: unknown): value is Row {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Engines disagree on how `JSON.parse` reports the failure location: V8 says
+ * "at position N" (when it says anything), Firefox "at line L column C".
+ */
+function locate(error: unknown, text: string, line: number): Pick<ParseError, 'line' | 'column'> {
+  const message = error instanceof Error ? error.message : '';
+  const lineColumn = message.match(/line (\d+) column (\d+)/);
+  if (lineColumn) {
+    return { line: line + Number(lineColumn[1]) - 1, column: Number(lineColumn[2]) };
+  }
+  const position = message.match(/position (\d+)/);
+  if (position) {
+    const before = text.slice(0, Number(position[1]));
+    const lines = before.split('\n');
+    return { line: line + lines.length - 1, column: lines[lines.length - 1].length + 1 };
+  }
+  return { line, column: 1 };
+}
+
+function describe(error: unknown): string {
+  const message = error instanceof Error ? error.message : 'Invalid JSON';
+  // Drop the location suffix; it is reported separately.
+  return message.replace(/\s*(at position \d+|at line \d+ column \d+ of the JSON data)/, '').replace(/^JSON\.parse: /, '');
+}
+
+function parseArray(text: string): ParsedJson {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { format: 'array', rows: [], errors: [{ ...locate(error, text, 1), message: describe(error) }] };
+  }
+  if (!Array.isArray(parsed)) {
+    return { format: 'array', rows: [], errors: [{ line: 1, column: 1, message: 'JSON must be an array of rows' }] };
+  }
+
+  const errors: ParseError[] = [];
+  parsed.forEach((item, idx) => {
+    if (!isRow(item) && errors.length < MAX_ERRORS) {
+      errors.push({ line: 1, column: 1, message: `Row ${idx} is not an object` });
+    }
+  });
+  return { format: 'array', rows: errors.length === 0 ? parsed : [], errors };
+}
+
+function parseLines(text: string): ParsedJson {
+  const rows: Row[] = [];
+  const errors: ParseError[] = [];
+
+  text.split(/\r?\n/).forEach((line, idx) => {
+    if (line.trim() === '' || errors.length >= MAX_ERRORS) return;
+    try {
+      const value = JSON.parse(line);
+      if (isRow(value)) {
+        rows.push(value);
+      } else {
+        errors.push({ line: idx + 1, column: 1, message: 'Line is not a JSON object' });
+      }
+    } catch (error) {
+      errors.push({ ...locate(error, line, idx + 1), message: describe(error) });
+    }
+  });
+  return { format: 'ndjson', rows, errors };
+}
+
+/**
+ * Accepts either a single JSON array of row objects or newline-delimited JSON
+ * (one object per line), deciding by the first non-blank character.
+ */
+export function parseJsonRows(input: string): ParsedJson {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+  return text.trimStart().startsWith('[') ? parseArray(text) : parseLines(text);
+}
@@ -0,0 +1,229 @@
+import { z } from 'zod';
+import type { Row } from './schemas';
+
+/**
+ * Fields the analyzer understands. Every upload is mapped onto these keys
+ * before it is sent with `createRunFromRows`; unmapped columns are passed
+ * through unchanged.
+ */
+export const CANONICAL_FIELDS = [
+  {
+    key: 'date',
+    label: 'Date',
+    required: true,
+    aliases: ['date', 'usage date', 'usage start date', 'usage start', 'day', 'billing period', 'charge period start', 'period', 'timestamp'],
+  },
+  {
+    key: 'account_id',
+    label: 'Account',
+    required: false,
+    aliases: ['account', 'account id', 'linked account', 'usage account id', 'subscription id', 'project id', 'billing account id', 'sub account id'],
+  },
+  {
+    key: 'service',
+    label: 'Service',
+    required: false,
+    aliases: ['service', 'service name', 'product', 'product name', 'product code', 'meter category', 'service description'],
+  },
+  {
+    key: 'cost',
+    label: 'Cost',
+    required: true,
+    aliases: ['cost', 'cost usd', 'amount', 'unblended cost', 'blended cost', 'pre tax cost', 'cost in billing currency', 'billed cost', 'effective cost', 'total cost', 'charge'],
+  },
+  {
+    key: 'currency',
+    label: 'Currency',
+    required: false,
+    aliases: ['currency', 'currency code', 'billing currency'],
+  },
+  {
+    key: 'resource_id',
+    label: 'Resource ID',
+    required: false,
+    aliases: ['resource', 'resource id', 'instance id', 'resource name', 'arn'],
+  },
+  {
+    key: 'tags',
+    label: 'Tags',
+    required: false,
+    aliases: ['tags', 'labels', 'resource tags', 'user tags'],
+  },
+] as const;
+
+export type CanonicalField = (typeof CANONICAL_FIELDS)[number]['key'];
+
+/** Canonical field → source column name. Missing keys are not mapped. */
+export type ColumnMapping = Partial<Record<CanonicalField, string>>;
+
+/**
+ * Splits camelCase, snake_case, slashes and so on into lowercase words:
+ * "lineItem/UnblendedCost" → "line item unblended cost".
+ */
+function normalize(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function bigrams(text: string): string[] {
+  const compact = text.replace(/ /g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) result.push(compact.slice(i, i + 2));
+  return result;
+}
+
+/** Sørensen–Dice coefficient over character bigrams, 0..1. */
+function dice(a: string, b: string): number {
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return a === b ? 1 : 0;
+  const counts = new Map<string, number>();
+  left.forEach((gram) => counts.set(gram, (counts.get(gram) ?? 0) + 1));
+  let overlap = 0;
+  for (const gram of right) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * overlap) / (left.length + right.length);
+}
+
+/** How well `column` matches `field`, 0..1. */
+export function similarity(column: string, field: CanonicalField): number {
+  const name = normalize(column);
+  const definition = CANONICAL_FIELDS.find((f) => f.key === field);
+  let best = 0;
+  for (const alias of definition.aliases) {
+    if (name === alias) return 1;
+    // Vendor prefixes like "lineItem/" or "pricing/" around an exact alias.
+    if (` ${name} `.endsWith(` ${alias} `)) best = Math.max(best, 0.9);
+    best = Math.max(best, dice(name, alias));
+  }
+  return best;
+}
+
+const SUGGESTION_THRESHOLD = 0.6;
+
+/**
+ * Suggests a mapping by name similarity, assigning the strongest matches
+ * first so that no column is used for two fields.
+ */
+export function suggestMapping(columns: string[]): ColumnMapping {
+  const candidates: { field: CanonicalField; column: string; score: number }[] = [];
+  for (const { key } of CANONICAL_FIELDS) {
+    for (const column of columns) {
+      const score = similarity(column, key);
+      if (score >= SUGGESTION_THRESHOLD) candidates.push({ field: key, column, score });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  for (const { field, column } of candidates) {
+    if (mapping[field] || used.has(column)) continue;
+    mapping[field] = column;
+    used.add(column);
+  }
+  return mapping;
+}
+
+export function missingRequiredFields(mapping: ColumnMapping): CanonicalField[] {
+  return CANONICAL_FIELDS.filter((field) => field.required && !mapping[field.key]).map((field) => field.key);
+}
+
+function toNumber(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const cleaned = value.replace(/[$€£,\s]/g, '');
+  if (cleaned === '') return value;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : value;
+}
+
+/**
+ * Renames mapped columns to their canonical keys and coerces `cost` to a
+ * number. Columns that are not part of the mapping are kept as they are.
+ */
+export function applyMapping(rows: Row[], mapping: ColumnMapping): Row[] {
+  const entries = Object.entries(mapping).filter(([, column]) => column) as [CanonicalField, string][];
+  const mappedColumns = new Set(entries.map(([, column]) => column));
+
+  return rows.map((row) => {
+    const result: Row = {};
+    for (const [key, value] of Object.entries(row)) {
+      if (!mappedColumns.has(key)) result[key] = value;
+    }
+    for (const [field, column] of entries) {
+      const value = row[column];
+      result[field] = field === 'cost' ? toNumber(value) : value;
+    }
+    return result;
+  });
+}
+
+const PROFILES_KEY = 'watchtower-mapping-profiles';
+
+const MappingProfileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  mapping: z.record(z.string(), z.string()),
+  createdAt: z.string(),
+});
+
+export type MappingProfile = z.infer<typeof MappingProfileSchema> & { mapping: ColumnMapping };
+
+export function loadProfiles(): MappingProfile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]');
+    const result = z.array(MappingProfileSchema).safeParse(stored);
+    return result.success ? (result.data as MappingProfile[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeProfiles(profiles: MappingProfile[]) {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+/** Saves a profile, replacing any existing one with the same name. */
+export function saveProfile(name: string, mapping: ColumnMapping): MappingProfile {
+  const profile: MappingProfile = {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    mapping,
+    createdAt: new Date().toISOString(),
+  };
+  storeProfiles([...loadProfiles().filter((p) => p.name !== profile.name), profile]);
+  return profile;
+}
+
+export function deleteProfile(id: string) {
+  storeProfiles(loadProfiles().filter((profile) => profile.id !== id));
+}
+
+/**
+ * The newest saved profile whose mapped columns all exist in `columns`, i.e.
+ * one that was made for a file with the same layout.
+ */
+export function findMatchingProfile(columns: string[], profiles = loadProfiles()): MappingProfile | undefined {
+  const available = new Set(columns);
+  return [...profiles]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .find((profile) => {
+      const mapped = Object.values(profile.mapping);
+      return mapped.length > 0 && mapped.every((column) => available.has(column));
+    });
+}
+
+/** Starting point for a new upload: a matching profile, else suggestions. */
+export function initialMapping(columns: string[]): { mapping: ColumnMapping; profile?: MappingProfile } {
+  const profile = findMatchingProfile(columns);
+  if (profile) return { mapping: profile.mapping, profile };
+  return { mapping: suggestMapping(columns) };
+}
@@ -0,0 +1,192 @@
+/**
+ * A small markdown parser for model output. It covers what explanations use
+ * (headings, paragraphs, lists, tables, quotes, code, emphasis and links) and
+ * produces a tree that is rendered as React elements. Raw HTML is never
+ * interpreted: tags stay literal text, so the output needs no sanitizing.
+ */
+
+export type Inline =
+  | { kind: 'text'; text: string }
+  | { kind: 'code'; text: string }
+  | { kind: 'strong'; children: Inline[] }
+  | { kind: 'em'; children: Inline[] }
+  | { kind: 'link'; href: string; children: Inline[] }
+  /** An inline reference such as `[finding 12]`, by the finding's index. */
+  | { kind: 'finding'; index: number; text: string };
+
+export type Align = 'left' | 'center' | 'right' | null;
+
+export type Block =
+  | { kind: 'heading'; level: number; children: Inline[] }
+  | { kind: 'paragraph'; children: Inline[] }
+  | { kind: 'code'; text: string }
+  | { kind: 'quote'; children: Block[] }
+  | { kind: 'list'; ordered: boolean; start: number; items: Block[][] }
+  | { kind: 'table'; align: Align[]; header: Inline[][]; rows: Inline[][][] }
+  | { kind: 'rule' };
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/** Only these schemes become links; anything else, e.g. `javascript:`, stays text. */
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+// Alternatives, earliest match first: code span, finding reference, link,
+// bold and italic. Underscores only emphasize outside words, so names like
+// `cost_spike` are left alone.
+const INLINE =
+  /`([^`]+)`|\[finding\s+#?(\d+)\]|\[([^\]]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|(?<!\w)__(.+?)__(?!\w)|\*([^*\s](?:[^*]*[^*\s])?)\*|(?<!\w)_([^_\s](?:[^_]*[^_\s])?)_(?!\w)/gi;
+
+export function parseInline(text: string): Inline[] {
+  const result: Inline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const start = match.index ?? 0;
+    if (start > last) result.push({ kind: 'text', text: text.slice(last, start) });
+    last = start + match[0].length;
+
+    const [source, code, finding, label, href, bold, underBold, italic, underItalic] = match;
+    if (code !== undefined) result.push({ kind: 'code', text: code });
+    else if (finding !== undefined) result.push({ kind: 'finding', index: Number(finding), text: source.slice(1, -1) });
+    else if (label !== undefined) {
+      if (SAFE_URL.test(href)) result.push({ kind: 'link', href, children: parseInline(label) });
+      else result.push(...parseInline(label));
+    } else if (bold !== undefined || underBold !== undefined) {
+      result.push({ kind: 'strong', children: parseInline(bold ?? underBold) });
+    } else {
+      result.push({ kind: 'em', children: parseInline(italic ?? underItalic) });
+    }
+  }
+  if (last < text.length) result.push({ kind: 'text', text: text.slice(last) });
+  return result;
+}
+
+const isBlank = (line: string) => line.trim() === '';
+
+const splitRow = (line: string) =>
+  line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map((cell) => cell.trim());
+
+const parseAlign = (cell: string): Align => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  return left ? 'left' : null;
+};
+
+/** Whether a line starts a block other than a paragraph, ending the paragraph before it. */
+const startsBlock = (lines: string[], i: number) =>
+  FENCE.test(lines[i]) ||
+  HEADING.test(lines[i]) ||
+  RULE.test(lines[i]) ||
+  QUOTE.test(lines[i]) ||
+  LIST_ITEM.test(lines[i]) ||
+  (lines[i].includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1]));
+
+function parseLines(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++;
+      blocks.push({ kind: 'code', text: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ kind: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    // Checked before lists, as `- - -` and `* * *` are rules.
+    if (RULE.test(line)) {
+      blocks.push({ kind: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(lines[i++].replace(QUOTE, ''));
+      blocks.push({ kind: 'quote', children: parseLines(body) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const indent = item[1].length;
+      const ordered = /\d/.test(item[2]);
+      const items: string[][] = [];
+      while (i < lines.length) {
+        const next = lines[i].match(LIST_ITEM);
+        if (next && next[1].length <= indent && /\d/.test(next[2]) === ordered) {
+          items.push([next[3]]);
+          i++;
+        } else if (!isBlank(lines[i]) && (/^\s/.test(lines[i]) || !startsBlock(lines, i))) {
+          // Indented lines (nested lists) and lazy continuations belong to the current item.
+          items[items.length - 1].push(lines[i].slice(Math.min(indent + 2, lines[i].search(/\S/))));
+          i++;
+        } else if (isBlank(lines[i]) && i + 1 < lines.length && /^\s+\S/.test(lines[i + 1])) {
+          items[items.length - 1].push('');
+          i++;
+        } else {
+          break;
+        }
+      }
+      blocks.push({
+        kind: 'list',
+        ordered,
+        start: ordered ? parseInt(item[2], 10) : 1,
+        items: items.map(parseLines),
+      });
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(parseAlign);
+      const rows: Inline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitRow(lines[i++]);
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+      }
+      blocks.push({ kind: 'table', align, header: header.map(parseInline), rows });
+      continue;
+    }
+
+    const body: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) body.push(lines[i++].trim());
+    blocks.push({ kind: 'paragraph', children: parseInline(body.join('\n')) });
+  }
+
+  return blocks;
+}
+
+export function parseMarkdown(text: string): Block[] {
+  return parseLines(text.replace(/\r\n?/g, '\n').split('\n'));
+}
@@ -0,0 +1,218 @@
+import type { Finding, Row } from '../schemas';
+
+/**
+ * Canonical fields the analyzer understands, with the header names it
+ * recognizes for each. A run's `coverage` lists the fields it could find.
+ */
+const FIELD_PATTERNS: Record<string, RegExp> = {
+  date: /^(date|usage_?date|usage_?start_?date|day|billing_?period)$/i,
+  account_id: /^(account|account_?id|linked_?account|subscription_?id|project_?id)$/i,
+  service: /^(service|service_?name|product|product_?name|meter_?category)$/i,
+  cost: /^(cost|cost_?usd|amount|unblended_?cost|pre_?tax_?cost|billed_?cost)$/i,
+  currency: /^(currency|currency_?code)$/i,
+  resource_id: /^(resource|resource_?id|instance_?id)$/i,
+  tags: /^(tags|labels|resource_?tags)$/i,
+};
+
+function detectFields(rows: Row[]): Record<string, string> {
+  const keys = new Set<string>();
+  for (const row of rows.slice(0, 50)) {
+    Object.keys(row).forEach((key) => keys.add(key));
+  }
+
+  const fields: Record<string, string> = {};
+  for (const [field, pattern] of Object.entries(FIELD_PATTERNS)) {
+    const key = [...keys].find((candidate) => pattern.test(candidate));
+    if (key) fields[field] = key;
+  }
+  return fields;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  const parsed = Number(value.replace(/[$,\s]/g, ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function isEmptyTags(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  if (typeof value === 'string') return value.trim() === '{}' || value.trim() === '[]';
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+}
+
+const money = (value: number) => value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * A deliberately simple stand-in for the real analyzer: it flags cost spikes
+ * against the per-service median, negative charges, exact duplicates and
+ * untagged resources. Good enough to drive the UI with realistic findings.
+ */
+export function analyzeRows(rows: Row[]): { findings: Finding[]; coverage: string[] } {
+  const fields = detectFields(rows);
+  const findings: Finding[] = [];
+  const currency = (row: Row) => (fields.currency && row[fields.currency] ? String(row[fields.currency]) : undefined);
+
+  if (fields.cost) {
+    const byService = new Map<string, number[]>();
+    rows.forEach((row) => {
+      const cost = toNumber(row[fields.cost]);
+      if (cost === undefined || cost <= 0) return;
+      const service = fields.service ? String(row[fields.service] ?? '') : '';
+      const costs = byService.get(service);
+      if (costs) costs.push(cost);
+      else byService.set(service, [cost]);
+    });
+    const medians = new Map([...byService].map(([service, costs]) => [service, median(costs)]));
+
+    rows.forEach((row, index) => {
+      const cost = toNumber(row[fields.cost]);
+      if (cost === undefined) return;
+      const service = fields.service ? String(row[fields.service] ?? '') : '';
+
+      if (cost < 0) {
+        findings.push({
+          index,
+          type: 'negative_cost',
+          reason: `Negative charge of ${money(cost)} without a matching credit line`,
+          row,
+          fields: [fields.cost],
+          impact: -cost,
+          currency: currency(row),
+        });
+        return;
+      }
+
+      const baseline = medians.get(service);
+      if (baseline && (byService.get(service)?.length ?? 0) >= 4 && cost > baseline * 3) {
+        const label = service || 'this dataset';
+        findings.push({
+          index,
+          type: 'cost_spike',
+          reason: `Cost ${money(cost)} is ${(cost / baseline).toFixed(1)}× the median of ${money(baseline)} for ${label}`,
+          row,
+          fields: fields.service ? [fields.cost, fields.service] : [fields.cost],
+          // Only the part above the usual spend is at stake.
+          impact: Math.round((cost - baseline) * 100) / 100,
+          currency: currency(row),
+        });
+      }
+    });
+  }
+
+  const seen = new Map<string, number>();
+  rows.forEach((row, index) => {
+    const key = JSON.stringify(row);
+    const first = seen.get(key);
+    if (first !== undefined) {
+      findings.push({
+        index,
+        type: 'duplicate_charge',
+        reason: `Identical to row ${first}; the charge may have been billed twice`,
+        row,
+        fields: Object.keys(row),
+        impact: fields.cost ? toNumber(row[fields.cost]) : undefined,
+        currency: currency(row),
+      });
+    } else {
+      seen.set(key, index);
+    }
+  });
+
+  if (fields.tags) {
+    rows.forEach((row, index) => {
+      const cost = fields.cost ? toNumber(row[fields.cost]) : undefined;
+      if (isEmptyTags(row[fields.tags]) && (cost === undefined || cost > 0)) {
+        const resource = fields.resource_id ? row[fields.resource_id] : undefined;
+        findings.push({
+          index,
+          type: 'untagged_resource',
+          reason: resource ? `Resource ${String(resource)} has no cost allocation tags` : 'Row has no cost allocation tags',
+          row,
+          fields: [fields.tags],
+          impact: cost,
+          currency: currency(row),
+        });
+      }
+    });
+  }
+
+  findings.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+  return { findings, coverage: Object.keys(fields) };
+}
+
+const cite = (findings: Finding[]) => findings.map((finding) => `[finding ${finding.index}]`).join(', ');
+
+/**
+ * Canned summary standing in for the model's natural-language explanation.
+ * Like the model's, it is markdown and cites examples as `[finding 12]`.
+ */
+export function explainFindings(findings: Finding[], rowCount: number, selected = false): string {
+  if (findings.length === 0) {
+    return `All ${rowCount} rows look healthy. No spikes, duplicates, negative charges or untagged resources were detected.`;
+  }
+
+  const byType = new Map<string, Finding[]>();
+  findings.forEach((finding) => byType.set(finding.type, [...(byType.get(finding.type) ?? []), finding]));
+  const lines = [...byType]
+    .sort((a, b) => b[1].length - a[1].length)
+    .map(([type, group]) => `- **${type.replace(/_/g, ' ')}**: ${group.length}, e.g. ${cite(group.slice(0, 2))}`);
+
+  return [
+    '### Summary',
+    '',
+    selected
+      ? `Of the **${findings.length}** selected findings:`
+      : `Out of ${rowCount} rows, **${findings.length}** look unusual:`,
+    '',
+    ...lines,
+    '',
+    'Start with the *cost spikes*: they usually point at a resource left running or a misconfigured autoscaling group. Duplicates are worth raising with the provider before the invoice closes.',
+  ].join('\n');
+}
+
+/**
+ * Canned answer to a follow-up question: findings of a type the question
+ * names, the costliest findings when it asks about money, else an overview.
+ */
+export function answerQuestion(findings: Finding[], question: string): string {
+  if (findings.length === 0) return 'This run has no findings, so there is nothing to dig into.';
+
+  const words = question.toLowerCase();
+  const types = [...new Set(findings.map((finding) => finding.type))];
+  const type = types.find((candidate) => words.includes(candidate) || words.includes(candidate.replace(/_/g, ' ')));
+  if (type) {
+    const matching = findings.filter((finding) => finding.type === type);
+    return [
+      `There are **${matching.length}** ${type.replace(/_/g, ' ')} findings. The first few:`,
+      '',
+      ...matching.slice(0, 5).map((finding) => `- [finding ${finding.index}]: ${finding.reason}`),
+    ].join('\n');
+  }
+
+  if (/cost|money|spend|expensive|impact|save/.test(words)) {
+    const costly = [...findings]
+      .filter((finding) => typeof finding.impact === 'number')
+      .sort((a, b) => Math.abs(b.impact ?? 0) - Math.abs(a.impact ?? 0))
+      .slice(0, 3);
+    if (costly.length === 0) return 'None of the findings have a cost attached, so I cannot rank them by impact.';
+    return [
+      'The findings with the most money at stake:',
+      '',
+      '| Finding | Type | Impact |',
+      '| --- | --- | ---: |',
+      ...costly.map((finding) => `| [finding ${finding.index}] | ${finding.type} | ${money(Math.abs(finding.impact ?? 0))} |`),
+    ].join('\n');
+  }
+
+  return `The findings fall into ${types.length} type${types.length === 1 ? '' : 's'}: ${types
+    .map((candidate) => `\`${candidate}\``)
+    .join(', ')}. Ask about one of them, or about cost, for details. A good place to start is ${cite(findings.slice(0, 2))}.`;
+}
@@ -0,0 +1,82 @@
+import type { Run } from '../schemas';
+
+/** How many recent events are kept for subscribers that reconnect. */
+const LOG_SIZE = 200;
+/** Comment lines sent on an idle stream, as the real backend does to keep proxies from closing it. */
+const HEARTBEAT_MS = 15_000;
+
+type RunEventBody = { type: 'created' | 'updated'; run: Run } | { type: 'deleted'; id: string };
+
+interface LoggedEvent {
+  id: number;
+  body: RunEventBody;
+}
+
+const log: LoggedEvent[] = [];
+const subscribers = new Set<(event: LoggedEvent) => void>();
+let nextId = 1;
+
+export function publishRunEvent(body: RunEventBody) {
+  const event = { id: nextId++, body };
+  log.push(event);
+  if (log.length > LOG_SIZE) log.shift();
+  subscribers.forEach((notify) => notify(event));
+}
+
+export function hasSubscribers(): boolean {
+  return subscribers.size > 0;
+}
+
+function format({ id, body: { type, ...data } }: LoggedEvent): string {
+  return `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Events after `lastEventId`, or undefined when some of them are gone: they
+ * fell out of the log, or the id is from before a reload.
+ */
+function missedSince(lastEventId: string): LoggedEvent[] | undefined {
+  const last = Number(lastEventId);
+  if (!Number.isInteger(last) || last >= nextId) return undefined;
+  const oldest = log[0]?.id ?? nextId;
+  return last + 1 < oldest ? undefined : log.filter((event) => event.id > last);
+}
+
+/**
+ * The `GET /runs/events` stream: replays what a reconnecting subscriber
+ * missed, then forwards every published event until the request is aborted.
+ */
+export function runEventStream(lastEventId: string | null, signal: AbortSignal | null | undefined): Response {
+  const encoder = new TextEncoder();
+  let notify: ((event: LoggedEvent) => void) | undefined;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const stop = () => {
+    if (notify) subscribers.delete(notify);
+    clearInterval(heartbeat);
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (lastEventId) {
+        const missed = missedSince(lastEventId);
+        if (missed) missed.forEach((event) => controller.enqueue(encoder.encode(format(event))));
+        else controller.enqueue(encoder.encode(`id: ${nextId - 1}\nevent: reset\ndata: {}\n\n`));
+      }
+      notify = (event) => controller.enqueue(encoder.encode(format(event)));
+      subscribers.add(notify);
+      heartbeat = setInterval(() => controller.enqueue(encoder.encode(': heartbeat\n\n')), HEARTBEAT_MS);
+
+      signal?.addEventListener(
+        'abort',
+        () => {
+          stop();
+          controller.error(new DOMException('The operation was aborted.', 'AbortError'));
+        },
+        { once: true },
+      );
+    },
+    cancel: stop,
+  });
+  return new Response(stream, { headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' } });
+}
@@ -0,0 +1,72 @@
+import type { Row, Run } from '../schemas';
+import { analyzeRows, explainFindings } from './analyze';
+import { createRandom, type Random } from './random';
+
+const ACCOUNTS = ['111122223333', '444455556666', '777788889999'];
+const SERVICES: Record<string, [number, number]> = {
+  AmazonEC2: [40, 120],
+  AmazonRDS: [25, 60],
+  AmazonS3: [3, 12],
+  AWSLambda: [1, 6],
+  AmazonCloudFront: [5, 18],
+};
+const TEAMS = ['payments', 'search', 'platform', 'data'];
+
+function generateRows(random: Random, endDate: Date, days: number): Row[] {
+  const rows: Row[] = [];
+  const account = random.pick(ACCOUNTS);
+
+  for (let day = days - 1; day >= 0; day--) {
+    const date = new Date(endDate.getTime() - day * 86_400_000).toISOString().slice(0, 10);
+    for (const [service, [min, max]] of Object.entries(SERVICES)) {
+      let cost = min + random.next() * (max - min);
+      if (random.chance(0.03)) cost *= random.int(4, 9);
+      if (random.chance(0.01)) cost = -cost;
+
+      const row: Row = {
+        date,
+        account_id: account,
+        service,
+        cost: Math.round(cost * 100) / 100,
+        currency: 'USD',
+        resource_id: `${service.toLowerCase()}-${random.int(1000, 9999)}`,
+        tags: random.chance(0.08) ? '' : `team=${random.pick(TEAMS)}`,
+      };
+      rows.push(row);
+      if (random.chance(0.01)) rows.push({ ...row });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Seed data for mock mode: enough runs to exercise pagination, each with
+ * generated billing rows run through the mock analyzer.
+ */
+export function createFixtures(now = new Date()): { runs: Run[]; rows: Record<string, Row[]> } {
+  const random = createRandom(20240601);
+  const runs: Run[] = [];
+  const rows: Record<string, Row[]> = {};
+
+  for (let i = 0; i < 26; i++) {
+    const createdAt = new Date(now.getTime() - i * 26 * 3_600_000 - random.int(0, 3_600_000));
+    const runRows = generateRows(random, createdAt, random.int(7, 21));
+    const { findings, coverage } = analyzeRows(runRows);
+    const explain = random.chance(0.4);
+    const id = `mock-${(0x1000 + i).toString(16)}-${random.int(100000, 999999).toString(36)}`;
+
+    runs.push({
+      id,
+      createdAt: createdAt.toISOString(),
+      source: random.chance(0.6) ? `cur-${createdAt.toISOString().slice(0, 7)}-${i}.csv` : 'json',
+      rowCount: runRows.length,
+      explain,
+      coverage,
+      explanation: explain ? explainFindings(findings, runRows.length) : undefined,
+      findings,
+    });
+    rows[id] = runRows;
+  }
+
+  return { runs, rows };
+}
@@ -0,0 +1,22 @@
+/**
+ * Small seeded PRNG (mulberry32) so fixtures look the same on every load.
+ */
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min: number, max: number) => Math.floor(next() * (max - min + 1)) + min,
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)],
+    chance: (probability: number) => next() < probability,
+  };
+}
+
+export type Random = ReturnType<typeof createRandom>;
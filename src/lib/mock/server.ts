@@ -0,0 +1,734 @@
+import { formatCsvField, parseCsv } from '../csv';
+import { toRows } from '../table';
+import { FINDING_STATUSES, type ChatMessage, type Finding, type Row, type Run, type Suppression } from '../schemas';
+import { parseAmount } from '../findings';
+import type { ColumnMapping } from '../mapping';
+import { isRunPending, runStatus } from '../run-status';
+import { findSuppression, isExpired } from '../suppressions';
+import { analyzeRows, answerQuestion, explainFindings } from './analyze';
+import { hasSubscribers, publishRunEvent, runEventStream } from './events';
+import {
+  appendChat,
+  clearChat,
+  deleteRun,
+  deleteSuppression,
+  findRun,
+  getChat,
+  getRows,
+  insertRun,
+  insertSuppression,
+  listRuns,
+  listSuppressions,
+  updateRun,
+  updateSuppression,
+} from './store';
+import { appendChunk, deleteSession, getSession, readSessionRows, startSession } from './uploads';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const UPLOAD_FAILURE_RATE = Number(import.meta.env.VITE_MOCK_UPLOAD_FAILURE_RATE) || 0;
+const RUN_FAILURE_RATE = Number(import.meta.env.VITE_MOCK_RUN_FAILURE_RATE) || 0;
+const TEAMMATE_RUN_MS = Number(import.meta.env.VITE_MOCK_TEAMMATE_RUN_MS) || 0;
+
+/** Simulated analysis: a moment in the queue, then longer the more rows there are. */
+const QUEUE_MS = 1_500;
+const PROCESS_MS = 3_000;
+const PROCESS_MS_PER_ROW = 2;
+const MAX_PROCESS_MS = 30_000;
+
+/** While anyone subscribes to run events, runs advance on this timer instead of waiting for a request. */
+const LIVE_TICK_MS = 1_000;
+
+type Handler = (request: MockRequest) => Promise<Response> | Response;
+
+interface MockRequest {
+  method: string;
+  params: string[];
+  query: URLSearchParams;
+  init: RequestInit;
+}
+
+function json(body: unknown, status = 200, headers: HeadersInit = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function error(status: number, code: string, message: string): Response {
+  return json({ ok: false, error: { code, message } }, status);
+}
+
+/** Average pause between streamed pieces, so answers visibly type out. */
+const TOKEN_DELAY_MS = 40;
+
+/**
+ * Streams `text` a word at a time as server-sent events, the way the model's
+ * answers arrive, and calls `onDone` once the last piece was sent. Aborting
+ * the request ends the stream without calling it.
+ */
+function eventStream(text: string, signal: AbortSignal | null | undefined, onDone: () => void): Response {
+  const encoder = new TextEncoder();
+  const pieces = text.match(/\s*\S+\s*/g) ?? [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let finished = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let index = 0;
+      const send = () => {
+        if (index < pieces.length) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ text: pieces[index++] })}\n\n`));
+          timer = setTimeout(send, TOKEN_DELAY_MS * (0.5 + Math.random()));
+          return;
+        }
+        finished = true;
+        onDone();
+        controller.enqueue(encoder.encode('event: done\ndata: {}\n\n'));
+        controller.close();
+      };
+      signal?.addEventListener(
+        'abort',
+        () => {
+          if (finished) return;
+          finished = true;
+          clearTimeout(timer);
+          controller.error(new DOMException('The operation was aborted.', 'AbortError'));
+        },
+        { once: true },
+      );
+      send();
+    },
+    cancel() {
+      finished = true;
+      clearTimeout(timer);
+    },
+  });
+  return new Response(stream, { headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' } });
+}
+
+function delay(signal?: AbortSignal | null): Promise<void> {
+  const ms = 150 + Math.random() * 250;
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+      },
+      { once: true },
+    );
+  });
+}
+
+/** Stores a run for the rows and queues it; `advanceRuns` analyzes it later. */
+function createRun(rows: Row[], source: string, explain: boolean): Run {
+  const run: Run = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    source,
+    rowCount: rows.length,
+    // The explanation itself is generated on request, streamed by POST /runs/:id/explanation.
+    explain,
+    status: 'queued',
+  };
+  insertRun(run, rows);
+  publishRunEvent({ type: 'created', run: listedRun(run) });
+  return run;
+}
+
+/** A run as `GET /runs` and run events carry it: findings are counted, not sent, and the explanation is left out. */
+function listedRun({ findings, explanation: _explanation, explanationScope: _scope, ...run }: Run): Run {
+  return {
+    ...run,
+    // Runs still being analyzed, or that failed, have nothing to count yet.
+    findingCount: runStatus(run) === 'completed' ? (findings?.length ?? 0) : undefined,
+  };
+}
+
+/** Every change to a stored run goes through here, so subscribers hear about it. */
+function saveRun(id: string, patch: Partial<Run>): Run | undefined {
+  const run = updateRun(id, patch);
+  if (run) publishRunEvent({ type: 'updated', run: listedRun(run) });
+  return run;
+}
+
+/**
+ * Moves queued and processing runs along by the time since they were
+ * created rather than on a timer, so analysis carries on across reloads.
+ * Only status changes are saved; progress is kept in memory and goes out
+ * with the next write.
+ */
+function advanceRuns(now = Date.now()) {
+  for (const run of listRuns().filter(isRunPending)) {
+    const elapsed = now - Date.parse(run.createdAt) - QUEUE_MS;
+    const duration = Math.min(MAX_PROCESS_MS, PROCESS_MS + (run.rowCount ?? 0) * PROCESS_MS_PER_ROW);
+    if (elapsed < 0) continue;
+    if (elapsed < duration) {
+      run.progress = elapsed / duration;
+      if (run.status === 'queued') saveRun(run.id, { status: 'processing' });
+      else publishRunEvent({ type: 'updated', run: listedRun(run) });
+    } else if (Math.random() < RUN_FAILURE_RATE) {
+      saveRun(run.id, {
+        status: 'failed',
+        progress: undefined,
+        error: 'The analysis worker stopped unexpectedly. Upload the file again to retry.',
+      });
+    } else {
+      const { findings, coverage } = analyzeRows(getRows(run.id));
+      saveRun(run.id, { status: 'completed', progress: undefined, findings, coverage });
+    }
+  }
+}
+
+/** Explanations, questions and exports need the findings, which pending and failed runs do not have yet. */
+function notReady(run: Run): Response | undefined {
+  const status = runStatus(run);
+  if (status === 'completed') return undefined;
+  return error(409, 'run_not_ready', status === 'failed' ? `Run ${run.id} failed` : `Run ${run.id} is still being analyzed`);
+}
+
+/** Applies the `GET /runs` filters; see `runFilterParams` for their meaning. */
+function filterRuns(runs: Run[], query: URLSearchParams): Run[] {
+  const q = query.get('q')?.toLowerCase();
+  const includeArchived = query.get('archived') === 'include';
+  const source = query.get('source');
+  const from = query.get('from') ? Date.parse(query.get('from')) : undefined;
+  const to = query.get('to') ? Date.parse(query.get('to')) : undefined;
+  const explain = query.get('explain');
+  const coverage = query.get('coverage')?.split(',').filter(Boolean) ?? [];
+  const minFindings = Number(query.get('minFindings')) || 0;
+
+  return runs.filter((run) => {
+    const created = Date.parse(run.createdAt);
+    return (
+      (includeArchived || !run.archived) &&
+      (!q || [run.name, run.source].some((text) => text?.toLowerCase().includes(q))) &&
+      (!source || run.source === source) &&
+      (from === undefined || created >= from) &&
+      (to === undefined || created < to) &&
+      (!explain || String(Boolean(run.explain)) === explain) &&
+      coverage.every((key) => run.coverage?.includes(key)) &&
+      (run.findings?.length ?? 0) >= minFindings
+    );
+  });
+}
+
+function sortRuns(runs: Run[], sort: string | null, order: string | null): Run[] {
+  const value = (run: Run): number | string => {
+    if (sort === 'rowCount') return run.rowCount ?? 0;
+    if (sort === 'findingCount') return run.findings?.length ?? 0;
+    return run.createdAt;
+  };
+  const direction = order === 'asc' ? 1 : -1;
+  // Ties fall back to newest first so pages stay stable.
+  return [...runs].sort((a, b) => {
+    const left = value(a);
+    const right = value(b);
+    if (left < right) return -direction;
+    if (left > right) return direction;
+    return b.createdAt.localeCompare(a.createdAt);
+  });
+}
+
+const handleListRuns: Handler = ({ query }) => {
+  const limit = Math.min(Number(query.get('limit')) || DEFAULT_LIMIT, MAX_LIMIT);
+  const cursor = query.get('cursor');
+  let offset: number;
+  try {
+    offset = cursor ? Number(atob(cursor)) : 0;
+  } catch {
+    return error(400, 'invalid_cursor', 'Cursor is malformed');
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return error(400, 'invalid_cursor', 'Cursor is malformed');
+  }
+  for (const key of ['from', 'to']) {
+    if (query.get(key) && Number.isNaN(Date.parse(query.get(key)))) {
+      return error(400, 'invalid_filter', `"${key}" must be an ISO timestamp`);
+    }
+  }
+
+  const runs = sortRuns(filterRuns(listRuns(), query), query.get('sort'), query.get('order'));
+  const page = runs.slice(offset, offset + limit).map(listedRun);
+  const nextOffset = offset + limit;
+  return json({
+    ok: true,
+    runs: page,
+    nextCursor: nextOffset < runs.length ? btoa(String(nextOffset)) : undefined,
+  });
+};
+
+let liveTimer: ReturnType<typeof setInterval> | undefined;
+let lastTeammateRun = Date.now();
+
+/**
+ * Keeps runs moving while the list is live, and with
+ * `VITE_MOCK_TEAMMATE_RUN_MS` set, creates a run from a copy of an existing
+ * run's rows that often, as if a teammate uploaded it.
+ */
+function tickLive() {
+  if (!hasSubscribers()) {
+    clearInterval(liveTimer);
+    liveTimer = undefined;
+    return;
+  }
+  advanceRuns();
+  if (TEAMMATE_RUN_MS > 0 && Date.now() - lastTeammateRun >= TEAMMATE_RUN_MS) {
+    lastTeammateRun = Date.now();
+    const runs = listRuns().filter((run) => runStatus(run) === 'completed');
+    const template = runs[Math.floor(Math.random() * runs.length)];
+    if (template) createRun(getRows(template.id), template.source || 'teammate-upload.csv', false);
+  }
+}
+
+const handleRunEvents: Handler = ({ init }) => {
+  const response = runEventStream(new Headers(init.headers).get('Last-Event-ID'), init.signal);
+  liveTimer ??= setInterval(tickLive, LIVE_TICK_MS);
+  return response;
+};
+
+/** Every run matching the `GET /runs` filters, oldest first, with findings counted per type. */
+const handleTrends: Handler = ({ query }) => {
+  for (const key of ['from', 'to']) {
+    if (query.get(key) && Number.isNaN(Date.parse(query.get(key)))) {
+      return error(400, 'invalid_filter', `"${key}" must be an ISO timestamp`);
+    }
+  }
+  const completed = listRuns().filter((run) => runStatus(run) === 'completed');
+  const runs = sortRuns(filterRuns(completed, query), 'createdAt', 'asc').map((run) => {
+    const types: Record<string, number> = {};
+    run.findings?.forEach((finding) => (types[finding.type] = (types[finding.type] ?? 0) + 1));
+    return {
+      id: run.id,
+      createdAt: run.createdAt,
+      name: run.name,
+      source: run.source,
+      explain: run.explain,
+      findingCount: run.findings?.length ?? 0,
+      types,
+    };
+  });
+  return json({ ok: true, runs });
+};
+
+/**
+ * Marks the findings hidden by a suppression rule. Rules are applied on
+ * every read rather than stored with the findings, so editing or deleting a
+ * rule takes effect on runs that already exist.
+ */
+function withSuppressions(run: Run): Run {
+  if (!run.findings) return run;
+  const rules = listSuppressions();
+  const now = Date.now();
+  return {
+    ...run,
+    findings: run.findings.map((finding) => ({ ...finding, suppressedBy: findSuppression(rules, finding, now)?.id })),
+  };
+}
+
+const handleGetRun: Handler = ({ params: [id] }) => {
+  const run = findRun(id);
+  if (!run) return error(404, 'not_found', `Run ${id} not found`);
+  return json({ ok: true, run: withSuppressions(run) });
+};
+
+const handleRunCosts: Handler = ({ params: [id] }) => {
+  if (!findRun(id)) return error(404, 'not_found', `Run ${id} not found`);
+  const days = new Map<string, { cost: number; rows: number }>();
+  for (const row of getRows(id)) {
+    const date = typeof row.date === 'string' ? row.date.slice(0, 10) : '';
+    const cost = parseAmount(row.cost);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || cost === undefined) continue;
+    const day = days.get(date) ?? { cost: 0, rows: 0 };
+    day.cost += cost;
+    day.rows++;
+    days.set(date, day);
+  }
+  return json({
+    ok: true,
+    days: [...days]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, { cost, rows }]) => ({ date, cost: Math.round(cost * 100) / 100, rows })),
+  });
+};
+
+const handleUpdateRun: Handler = ({ params: [id], init }) => {
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(String(init.body));
+  } catch {
+    return error(400, 'invalid_json', 'Request body is not valid JSON');
+  }
+  const patch: Partial<Run> = {};
+  for (const [key, max] of [['name', 200], ['description', 2000]] as const) {
+    if (!(key in body)) continue;
+    const value = body[key];
+    if (value !== null && (typeof value !== 'string' || value.length > max)) {
+      return error(422, 'invalid_run', `"${key}" must be a string of at most ${max} characters, or null`);
+    }
+    patch[key] = typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+  if ('archived' in body) {
+    if (typeof body.archived !== 'boolean') return error(422, 'invalid_run', '"archived" must be a boolean');
+    patch.archived = body.archived;
+  }
+  const run = saveRun(id, patch);
+  return run ? json({ ok: true, run: withSuppressions(run) }) : error(404, 'not_found', `Run ${id} not found`);
+};
+
+const handleDeleteRun: Handler = ({ params: [id] }) => {
+  if (!deleteRun(id)) return error(404, 'not_found', `Run ${id} not found`);
+  publishRunEvent({ type: 'deleted', id });
+  return json({ ok: true });
+};
+
+const handleExplain: Handler = ({ params: [id], init }) => {
+  const run = findRun(id);
+  if (!run) return error(404, 'not_found', `Run ${id} not found`);
+  const unavailable = notReady(run);
+  if (unavailable) return unavailable;
+  let body: { positions?: unknown };
+  try {
+    body = init.body ? JSON.parse(String(init.body)) : {};
+  } catch {
+    return error(400, 'invalid_json', 'Request body is not valid JSON');
+  }
+
+  const findings = run.findings ?? [];
+  const positions = body.positions;
+  if (
+    positions !== undefined &&
+    (!Array.isArray(positions) ||
+      positions.length === 0 ||
+      !positions.every((position) => Number.isInteger(position) && position >= 0 && position < findings.length))
+  ) {
+    return error(422, 'invalid_positions', `"positions" must list findings between 0 and ${findings.length - 1}`);
+  }
+
+  const scope = positions as number[] | undefined;
+  const text = scope
+    ? explainFindings(
+        scope.map((position) => findings[position]),
+        run.rowCount ?? getRows(id).length,
+        true,
+      )
+    : explainFindings(findings, run.rowCount ?? getRows(id).length);
+  return eventStream(text, init.signal, () =>
+    saveRun(id, { explain: true, explanation: text, explanationScope: scope }),
+  );
+};
+
+const handleGetChat: Handler = ({ params: [id] }) => {
+  if (!findRun(id)) return error(404, 'not_found', `Run ${id} not found`);
+  return json({ ok: true, messages: getChat(id) });
+};
+
+const handleAsk: Handler = ({ params: [id], init }) => {
+  const run = findRun(id);
+  if (!run) return error(404, 'not_found', `Run ${id} not found`);
+  const unavailable = notReady(run);
+  if (unavailable) return unavailable;
+  let body: { question?: unknown };
+  try {
+    body = JSON.parse(String(init.body));
+  } catch {
+    return error(400, 'invalid_json', 'Request body is not valid JSON');
+  }
+  if (typeof body.question !== 'string' || body.question.trim() === '') {
+    return error(422, 'invalid_question', '"question" must be a non-empty string');
+  }
+
+  const question: ChatMessage = { role: 'user', content: body.question.trim(), createdAt: new Date().toISOString() };
+  const answer = answerQuestion(run.findings ?? [], question.content);
+  return eventStream(answer, init.signal, () =>
+    appendChat(id, question, { role: 'assistant', content: answer, createdAt: new Date().toISOString() }),
+  );
+};
+
+const handleClearChat: Handler = ({ params: [id] }) => {
+  if (!findRun(id)) return error(404, 'not_found', `Run ${id} not found`);
+  clearChat(id);
+  return json({ ok: true });
+};
+
+const handleUpdateFindings: Handler = ({ params: [id], init }) => {
+  const run = findRun(id);
+  if (!run) return error(404, 'not_found', `Run ${id} not found`);
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(String(init.body));
+  } catch {
+    return error(400, 'invalid_json', 'Request body is not valid JSON');
+  }
+
+  const findings = run.findings ?? [];
+  const positions = body.positions;
+  if (
+    !Array.isArray(positions) ||
+    positions.length === 0 ||
+    !positions.every((position) => Number.isInteger(position) && position >= 0 && position < findings.length)
+  ) {
+    return error(422, 'invalid_positions', `"positions" must list findings between 0 and ${findings.length - 1}`);
+  }
+  const patch: Partial<Finding> = {};
+  if ('status' in body) {
+    if (!FINDING_STATUSES.includes(body.status as Finding['status'])) {
+      return error(422, 'invalid_status', `"status" must be one of ${FINDING_STATUSES.join(', ')}`);
+    }
+    patch.status = body.status as Finding['status'];
+  }
+  for (const [key, max] of [['assignee', 200], ['notes', 5000]] as const) {
+    if (!(key in body)) continue;
+    const value = body[key];
+    if (value !== null && (typeof value !== 'string' || value.length > max)) {
+      return error(422, 'invalid_finding', `"${key}" must be a string of at most ${max} characters, or null`);
+    }
+    patch[key] = typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+
+  const selected = new Set(positions);
+  saveRun(id, { findings: findings.map((finding, position) => (selected.has(position) ? { ...finding, ...patch } : finding)) });
+  return json({ ok: true, updated: positions.length });
+};
+
+/** Validates a create or update body; `partial` allows leaving fields out. */
+function parseSuppression(body: Record<string, unknown>, partial: boolean): Partial<Suppression> | string {
+  const result: Partial<Suppression> = {};
+  if ('type' in body || !partial) {
+    if (typeof body.type !== 'string' || !body.type.trim() || body.type.length > 200) {
+      return '"type" must be a non-empty string of at most 200 characters';
+    }
+    result.type = body.type.trim();
+  }
+  if ('match' in body || !partial) {
+    const match = body.match;
+    if (
+      typeof match !== 'object' ||
+      match === null ||
+      Array.isArray(match) ||
+      !Object.values(match).every((value) => ['string', 'number', 'boolean'].includes(typeof value))
+    ) {
+      return '"match" must be an object of row fields to string, number or boolean values';
+    }
+    result.match = match as Row;
+  }
+  if ('reason' in body) {
+    const reason = body.reason;
+    if (reason !== null && (typeof reason !== 'string' || reason.length > 2000)) {
+      return '"reason" must be a string of at most 2000 characters, or null';
+    }
+    result.reason = typeof reason === 'string' && reason.trim() ? reason.trim() : undefined;
+  }
+  if ('expiresAt' in body) {
+    const expiresAt = body.expiresAt;
+    if (expiresAt !== null && (typeof expiresAt !== 'string' || Number.isNaN(Date.parse(expiresAt)))) {
+      return '"expiresAt" must be an ISO timestamp, or null';
+    }
+    result.expiresAt = typeof expiresAt === 'string' ? new Date(expiresAt).toISOString() : undefined;
+  }
+  return result;
+}
+
+/** Counts, for every rule, the findings across all runs that it hides. */
+function countHits(rules: Suppression[]): Map<string, number> {
+  const hits = new Map<string, number>();
+  const now = Date.now();
+  const active = rules.filter((rule) => !isExpired(rule, now));
+  if (active.length === 0) return hits;
+  for (const run of listRuns()) {
+    for (const finding of run.findings ?? []) {
+      const rule = findSuppression(active, finding, now);
+      if (rule) hits.set(rule.id, (hits.get(rule.id) ?? 0) + 1);
+    }
+  }
+  return hits;
+}
+
+const handleListSuppressions: Handler = () => {
+  const rules = listSuppressions();
+  const hits = countHits(rules);
+  return json({ ok: true, suppressions: rules.map((rule) => ({ ...rule, hits: hits.get(rule.id) ?? 0 })) });
+};
+
+const handleCreateSuppression: Handler = ({ init }) => {
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(String(init.body));
+  } catch {
+    return error(400, 'invalid_json', 'Request body is not valid JSON');
+  }
+  const parsed = parseSuppression(body, false);
+  if (typeof parsed === 'string') return error(422, 'invalid_suppression', parsed);
+  const suppression = { ...parsed, id: crypto.randomUUID(), createdAt: new Date().toISOString() } as Suppression;
+  insertSuppression(suppression);
+  return json({ ok: true, suppression: { ...suppression, hits: countHits(listSuppressions()).get(suppression.id) ?? 0 } }, 201);
+};
+
+const handleUpdateSuppression: Handler = ({ params: [id], init }) => {
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(String(init.body));
+  } catch {
+    return error(400, 'invalid_json', 'Request body is not valid JSON');
+  }
+  const parsed = parseSuppression(body, true);
+  if (typeof parsed === 'string') return error(422, 'invalid_suppression', parsed);
+  const suppression = updateSuppression(id, parsed);
+  if (!suppression) return error(404, 'not_found', `Suppression ${id} not found`);
+  return json({ ok: true, suppression: { ...suppression, hits: countHits(listSuppressions()).get(id) ?? 0 } });
+};
+
+const handleDeleteSuppression: Handler = ({ params: [id] }) => {
+  return deleteSuppression(id) ? json({ ok: true }) : error(404, 'not_found', `Suppression ${id} not found`);
+};
+
+const handleCreateRun: Handler = async ({ init }) => {
+  if (init.body instanceof FormData) {
+    const file = init.body.get('file');
+    if (!(file instanceof File)) return error(400, 'missing_file', 'Expected a "file" field');
+    const parsed = parseCsv(await file.text());
+    if (parsed.errors.length > 0) {
+      const [first] = parsed.errors;
+      return error(422, 'invalid_csv', `Line ${first.line}, column ${first.column}: ${first.message}`);
+    }
+    const rows = toRows(parsed);
+    if (rows.length === 0) return error(422, 'empty_file', 'The CSV has no data rows');
+    const run = createRun(rows, file.name, init.body.get('explain') === 'true');
+    return json({ ok: true, runId: run.id }, 201);
+  }
+
+  let body: { rows?: unknown; explain?: boolean; source?: string };
+  try {
+    body = JSON.parse(String(init.body));
+  } catch {
+    return error(400, 'invalid_json', 'Request body is not valid JSON');
+  }
+  if (!Array.isArray(body.rows) || body.rows.length === 0) {
+    return error(422, 'invalid_rows', '"rows" must be a non-empty array');
+  }
+  const run = createRun(body.rows as Row[], body.source || 'json', body.explain === true);
+  return json({ ok: true, runId: run.id }, 201);
+};
+
+const handleExport: Handler = ({ params: [id] }) => {
+  const run = findRun(id);
+  if (!run) return error(404, 'not_found', `Run ${id} not found`);
+  const unavailable = notReady(run);
+  if (unavailable) return unavailable;
+
+  const findings = run.findings ?? [];
+  const rowKeys = [...new Set(findings.flatMap((finding) => Object.keys(finding.row ?? {})))];
+  const header = ['index', 'type', 'reason', ...rowKeys];
+  const lines = findings.map((finding) =>
+    [finding.index, finding.type, finding.reason, ...rowKeys.map((key) => finding.row?.[key])].map(formatCsvField).join(','),
+  );
+  return new Response([header.map(formatCsvField).join(','), ...lines].join('\r\n') + '\r\n', {
+    headers: { 'Content-Type': 'text/csv' },
+  });
+};
+
+const handleStartUpload: Handler = ({ init }) => {
+  let body: { fileName?: unknown; size?: unknown };
+  try {
+    body = JSON.parse(String(init.body ?? '{}'));
+  } catch {
+    return error(400, 'invalid_json', 'Request body is not valid JSON');
+  }
+  if (typeof body.fileName !== 'string' || typeof body.size !== 'number' || !Number.isInteger(body.size) || body.size <= 0) {
+    return error(422, 'invalid_upload', '"fileName" and a positive "size" are required');
+  }
+  return json(startSession(body.fileName, body.size), 201);
+};
+
+const handleUploadStatus: Handler = ({ params: [id] }) => {
+  const session = getSession(id);
+  return session ? json(session) : error(404, 'not_found', `Upload ${id} not found`);
+};
+
+const handleUploadChunk: Handler = ({ params: [id], init }) => {
+  const offset = Number(new Headers(init.headers).get('Upload-Offset'));
+  if (!(init.body instanceof Blob) || !Number.isInteger(offset)) {
+    return error(400, 'invalid_chunk', 'Expected a binary body and an Upload-Offset header');
+  }
+  const result = appendChunk(id, offset, init.body);
+  if (!result) return error(404, 'not_found', `Upload ${id} not found`);
+  if (result.mismatch) {
+    return json({ ok: false, error: { code: 'offset_mismatch', message: `Expected offset ${result.offset}`, details: { offset: result.offset } } }, 409);
+  }
+  return json({ ok: true, offset: result.offset });
+};
+
+const handleCompleteUpload: Handler = async ({ params: [id], init }) => {
+  let body: { mapping?: ColumnMapping; format?: string; sheet?: string; source?: string; explain?: boolean };
+  try {
+    body = JSON.parse(String(init.body ?? '{}'));
+  } catch {
+    return error(400, 'invalid_json', 'Request body is not valid JSON');
+  }
+  const result = await readSessionRows(id, body);
+  if (!result) return error(404, 'not_found', `Upload ${id} not found`);
+  if (result.error) return error(422, 'invalid_upload', result.error);
+  if (result.rows.length === 0) return error(422, 'empty_file', 'The file has no data rows');
+  const run = createRun(result.rows, body.source || result.fileName, body.explain === true);
+  return json({ ok: true, runId: run.id }, 201);
+};
+
+const handleDeleteUpload: Handler = ({ params: [id] }) => {
+  return deleteSession(id) ? json({ ok: true }) : error(404, 'not_found', `Upload ${id} not found`);
+};
+
+const routes: [string, RegExp, Handler][] = [
+  ['GET', /\/runs$/, handleListRuns],
+  ['GET', /\/runs\/events$/, handleRunEvents],
+  ['GET', /\/runs\/([^/]+)\/export\.csv$/, handleExport],
+  ['GET', /\/runs\/([^/]+)\/costs$/, handleRunCosts],
+  ['GET', /\/runs\/([^/]+)$/, handleGetRun],
+  ['PATCH', /\/runs\/([^/]+)$/, handleUpdateRun],
+  ['PATCH', /\/runs\/([^/]+)\/findings$/, handleUpdateFindings],
+  ['POST', /\/runs\/([^/]+)\/explanation$/, handleExplain],
+  ['GET', /\/runs\/([^/]+)\/chat$/, handleGetChat],
+  ['POST', /\/runs\/([^/]+)\/chat$/, handleAsk],
+  ['DELETE', /\/runs\/([^/]+)\/chat$/, handleClearChat],
+  ['DELETE', /\/runs\/([^/]+)$/, handleDeleteRun],
+  ['POST', /\/run$/, handleCreateRun],
+  ['GET', /\/trends$/, handleTrends],
+  ['GET', /\/suppressions$/, handleListSuppressions],
+  ['POST', /\/suppressions$/, handleCreateSuppression],
+  ['PATCH', /\/suppressions\/([^/]+)$/, handleUpdateSuppression],
+  ['DELETE', /\/suppressions\/([^/]+)$/, handleDeleteSuppression],
+  ['POST', /\/uploads$/, handleStartUpload],
+  ['GET', /\/uploads\/([^/]+)$/, handleUploadStatus],
+  ['PUT', /\/uploads\/([^/]+)$/, handleUploadChunk],
+  ['POST', /\/uploads\/([^/]+)\/complete$/, handleCompleteUpload],
+  ['DELETE', /\/uploads\/([^/]+)$/, handleDeleteUpload],
+];
+
+/**
+ * Drop-in replacement for `fetch` used when `VITE_MOCK_API=true`. Answers the
+ * same endpoints as the real backend from an in-browser store, with a little
+ * latency so loading states are visible. `VITE_MOCK_UPLOAD_FAILURE_RATE`
+ * (0..1) drops that share of upload chunks to exercise resuming,
+ * `VITE_MOCK_RUN_FAILURE_RATE` (0..1) fails that share of run analyses and
+ * `VITE_MOCK_TEAMMATE_RUN_MS` has runs appear on their own for the live list.
+ */
+export async function mockFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  await delay(init.signal);
+
+  if (init.method === 'PUT' && Math.random() < UPLOAD_FAILURE_RATE) {
+    throw new TypeError('Failed to fetch');
+  }
+
+  advanceRuns();
+  const url = new URL(input, window.location.origin);
+  const method = (init.method ?? 'GET').toUpperCase();
+  for (const [routeMethod, pattern, handler] of routes) {
+    const match = url.pathname.match(pattern);
+    if (match && routeMethod === method) {
+      const params = match.slice(1).map(decodeURIComponent);
+      return handler({ method, params, query: url.searchParams, init });
+    }
+  }
+  return error(404, 'not_found', `No mock route for ${method} ${url.pathname}`);
+}
@@ -0,0 +1,121 @@
+import type { ChatMessage, Row, Run, Suppression } from '../schemas';
+import { createFixtures } from './fixtures';
+
+const STORAGE_KEY = 'watchtower-mock-db';
+
+interface MockDb {
+  runs: Run[];
+  rows: Record<string, Row[]>;
+  suppressions: Suppression[];
+  /** Follow-up conversation of each run, oldest message first. */
+  chats: Record<string, ChatMessage[]>;
+}
+
+let db: MockDb | null = null;
+
+function load(): MockDb {
+  if (db) return db;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      db = JSON.parse(stored) as MockDb;
+      // Databases stored before suppressions or chats existed have no list yet.
+      db.suppressions ??= [];
+      db.chats ??= {};
+      return db;
+    }
+  } catch {
+    // Corrupt or inaccessible storage: fall back to fresh fixtures.
+  }
+  db = { ...createFixtures(), suppressions: [], chats: {} };
+  persist();
+  return db;
+}
+
+function persist() {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(db));
+  } catch {
+    // Quota exceeded with large uploads; keep working from memory.
+  }
+}
+
+/** Runs newest first, as the real backend returns them. */
+export function listRuns(): Run[] {
+  return [...load().runs].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function findRun(id: string): Run | undefined {
+  return load().runs.find((run) => run.id === id);
+}
+
+export function getRows(id: string): Row[] {
+  return load().rows[id] ?? [];
+}
+
+export function updateRun(id: string, patch: Partial<Run>): Run | undefined {
+  const run = findRun(id);
+  if (!run) return undefined;
+  Object.assign(run, patch);
+  persist();
+  return run;
+}
+
+export function deleteRun(id: string): boolean {
+  const current = load();
+  const index = current.runs.findIndex((run) => run.id === id);
+  if (index === -1) return false;
+  current.runs.splice(index, 1);
+  delete current.rows[id];
+  delete current.chats[id];
+  persist();
+  return true;
+}
+
+export function insertRun(run: Run, rows: Row[]) {
+  const current = load();
+  current.runs.push(run);
+  current.rows[run.id] = rows;
+  persist();
+}
+
+export function listSuppressions(): Suppression[] {
+  return [...load().suppressions].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function insertSuppression(suppression: Suppression) {
+  load().suppressions.push(suppression);
+  persist();
+}
+
+export function updateSuppression(id: string, patch: Partial<Suppression>): Suppression | undefined {
+  const suppression = load().suppressions.find((rule) => rule.id === id);
+  if (!suppression) return undefined;
+  Object.assign(suppression, patch);
+  persist();
+  return suppression;
+}
+
+export function deleteSuppression(id: string): boolean {
+  const current = load();
+  const index = current.suppressions.findIndex((rule) => rule.id === id);
+  if (index === -1) return false;
+  current.suppressions.splice(index, 1);
+  persist();
+  return true;
+}
+
+export function getChat(runId: string): ChatMessage[] {
+  return load().chats[runId] ?? [];
+}
+
+export function appendChat(runId: string, ...messages: ChatMessage[]) {
+  const current = load();
+  current.chats[runId] = [...(current.chats[runId] ?? []), ...messages];
+  persist();
+}
+
+export function clearChat(runId: string) {
+  delete load().chats[runId];
+  persist();
+}
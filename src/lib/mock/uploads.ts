@@ -0,0 +1,93 @@
+import { detectFormat, IMPORTERS } from '../importers';
+import { applyMapping, type ColumnMapping } from '../mapping';
+import type { Row } from '../schemas';
+import { loadSheet, loadUpload } from '../uploads';
+
+const CHUNK_SIZE = 5 * 1024 * 1024;
+
+interface UploadSession {
+  uploadId: string;
+  fileName: string;
+  size: number;
+  parts: Blob[];
+  offset: number;
+}
+
+// In memory only: a reload loses pending sessions, like a backend restart would.
+const sessions = new Map<string, UploadSession>();
+
+function describe(session: UploadSession) {
+  return {
+    ok: true,
+    uploadId: session.uploadId,
+    size: session.size,
+    offset: session.offset,
+    chunkSize: CHUNK_SIZE,
+  };
+}
+
+export function startSession(fileName: string, size: number) {
+  const session: UploadSession = { uploadId: crypto.randomUUID(), fileName, size, parts: [], offset: 0 };
+  sessions.set(session.uploadId, session);
+  return describe(session);
+}
+
+export function getSession(uploadId: string) {
+  const session = sessions.get(uploadId);
+  return session ? describe(session) : undefined;
+}
+
+/**
+ * Appends a chunk if it starts exactly at the current offset. Returns the new
+ * offset, or the expected one as `mismatch` so the client can resync.
+ */
+export function appendChunk(uploadId: string, offset: number, chunk: Blob): { offset: number; mismatch?: boolean } | undefined {
+  const session = sessions.get(uploadId);
+  if (!session) return undefined;
+  if (offset !== session.offset || offset + chunk.size > session.size) {
+    return { offset: session.offset, mismatch: true };
+  }
+  session.parts.push(chunk);
+  session.offset += chunk.size;
+  return { offset: session.offset };
+}
+
+export function deleteSession(uploadId: string): boolean {
+  return sessions.delete(uploadId);
+}
+
+/**
+ * Reassembles the file and reads it the same way the browser does, then
+ * applies the requested provider format or column mapping.
+ */
+export async function readSessionRows(
+  uploadId: string,
+  options: { mapping?: ColumnMapping; format?: string; sheet?: string },
+): Promise<{ rows: Row[]; fileName: string; error?: string } | undefined> {
+  const session = sessions.get(uploadId);
+  if (!session) return undefined;
+  if (session.offset !== session.size) {
+    return { rows: [], fileName: session.fileName, error: `Only ${session.offset} of ${session.size} bytes received` };
+  }
+
+  let upload = await loadUpload(new File(session.parts, session.fileName));
+  if (options.sheet && upload.workbook && options.sheet !== upload.sheet) {
+    if (!upload.workbook.sheetNames.includes(options.sheet)) {
+      return { rows: [], fileName: session.fileName, error: `The workbook has no sheet "${options.sheet}"` };
+    }
+    upload = await loadSheet(upload.workbook, options.sheet);
+  }
+  if (upload.table.errors.length > 0) {
+    const [first] = upload.table.errors;
+    return { rows: [], fileName: session.fileName, error: `Line ${first.line}, column ${first.column}: ${first.message}` };
+  }
+
+  const importer = options.format
+    ? IMPORTERS.find((candidate) => candidate.id === options.format)
+    : options.mapping
+      ? undefined
+      : detectFormat(upload.table.headers);
+  const rows = importer ? upload.rows.map(importer.normalize) : applyMapping(upload.rows, options.mapping ?? {});
+  sessions.delete(uploadId);
+  return { rows, fileName: session.fileName };
+}
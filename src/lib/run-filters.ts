@@ -0,0 +1,135 @@
+/**
+ * Filters for the runs list. The same shape is read from and written to the
+ * page URL, so a filtered view can be shared as a link, and is sent to
+ * `GET /runs` as query parameters.
+ */
+
+import type { Run } from './schemas';
+
+export const RUN_SORT_FIELDS = ['createdAt', 'rowCount', 'findingCount'] as const;
+
+export type RunSortField = (typeof RUN_SORT_FIELDS)[number];
+export type SortOrder = 'asc' | 'desc';
+
+export interface RunFilters {
+  /** Free text matched against run names and source names. */
+  q?: string;
+  /** Exact source name. */
+  source?: string;
+  /** Inclusive `YYYY-MM-DD` bounds on the creation date, in local time. */
+  from?: string;
+  to?: string;
+  explain?: boolean;
+  /** Runs must cover every one of these canonical fields. */
+  coverage?: string[];
+  minFindings?: number;
+  /** Archived runs are left out unless this is set. */
+  includeArchived?: boolean;
+  sort?: RunSortField;
+  order?: SortOrder;
+}
+
+export const DEFAULT_SORT: { sort: RunSortField; order: SortOrder } = { sort: 'createdAt', order: 'desc' };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Reads filters from page query parameters, dropping anything malformed. */
+export function parseRunFilters(params: URLSearchParams): RunFilters {
+  const filters: RunFilters = {};
+  const q = params.get('q')?.trim();
+  if (q) filters.q = q;
+  const source = params.get('source');
+  if (source) filters.source = source;
+  for (const key of ['from', 'to'] as const) {
+    const value = params.get(key);
+    if (value && DATE_PATTERN.test(value)) filters[key] = value;
+  }
+  const explain = params.get('explain');
+  if (explain === 'true' || explain === 'false') filters.explain = explain === 'true';
+  const coverage = params.get('coverage')?.split(',').filter(Boolean);
+  if (coverage?.length) filters.coverage = coverage;
+  const minFindings = Number(params.get('minFindings'));
+  if (Number.isInteger(minFindings) && minFindings > 0) filters.minFindings = minFindings;
+  if (params.get('archived') === 'include') filters.includeArchived = true;
+  const sort = params.get('sort');
+  if (RUN_SORT_FIELDS.includes(sort as RunSortField)) filters.sort = sort as RunSortField;
+  const order = params.get('order');
+  if (order === 'asc' || order === 'desc') filters.order = order;
+  return filters;
+}
+
+/**
+ * Writes filters into page query parameters, leaving unrelated parameters
+ * alone and removing the ones that are unset.
+ */
+export function writeRunFilters(filters: RunFilters, params = new URLSearchParams()): URLSearchParams {
+  const result = new URLSearchParams(params);
+  const values: Record<string, string | undefined> = {
+    q: filters.q || undefined,
+    source: filters.source || undefined,
+    from: filters.from,
+    to: filters.to,
+    explain: filters.explain === undefined ? undefined : String(filters.explain),
+    coverage: filters.coverage?.length ? filters.coverage.join(',') : undefined,
+    minFindings: filters.minFindings ? String(filters.minFindings) : undefined,
+    archived: filters.includeArchived ? 'include' : undefined,
+    sort: filters.sort,
+    order: filters.order,
+  };
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined) result.delete(key);
+    else result.set(key, value);
+  }
+  return result;
+}
+
+/** Whether any filter (as opposed to the sort order or archive toggle) is applied. */
+export function hasActiveFilters(filters: RunFilters): boolean {
+  const { sort: _sort, order: _order, includeArchived: _includeArchived, ...rest } = filters;
+  return Object.values(rest).some((value) => value !== undefined);
+}
+
+/** `filters` without any filter, keeping the sort order and archive toggle. */
+export function clearRunFilters({ sort, order, includeArchived }: RunFilters): RunFilters {
+  return { sort, order, includeArchived };
+}
+
+/** The date filters as instants: the start of the `from` day and the start of the day after `to`, in local time. */
+function dateBounds(filters: RunFilters): { from?: Date; to?: Date } {
+  const from = filters.from ? new Date(`${filters.from}T00:00:00`) : undefined;
+  const to = filters.to ? new Date(`${filters.to}T00:00:00`) : undefined;
+  to?.setDate(to.getDate() + 1);
+  return { from, to };
+}
+
+/**
+ * Query parameters for `GET /runs`. Date bounds become instants so the
+ * backend does not have to know the user's time zone.
+ */
+export function runFilterParams(filters: RunFilters): URLSearchParams {
+  const params = writeRunFilters({ ...filters, from: undefined, to: undefined });
+  const { from, to } = dateBounds(filters);
+  if (from) params.set('from', from.toISOString());
+  if (to) params.set('to', to.toISOString());
+  return params;
+}
+
+/**
+ * Whether `GET /runs` with these filters would list the run, for runs that
+ * arrive by other means, such as live updates.
+ */
+export function matchesRunFilters(run: Run, filters: RunFilters): boolean {
+  const q = filters.q?.toLowerCase();
+  const { from, to } = dateBounds(filters);
+  const created = Date.parse(run.createdAt);
+  return (
+    (filters.includeArchived || !run.archived) &&
+    (!q || [run.name, run.source].some((text) => text?.toLowerCase().includes(q))) &&
+    (!filters.source || run.source === filters.source) &&
+    (!from || created >= from.getTime()) &&
+    (!to || created < to.getTime()) &&
+    (filters.explain === undefined || Boolean(run.explain) === filters.explain) &&
+    (filters.coverage ?? []).every((key) => run.coverage?.includes(key)) &&
+    (run.findingCount ?? run.findings?.length ?? 0) >= (filters.minFindings ?? 0)
+  );
+}
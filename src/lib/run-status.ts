@@ -0,0 +1,21 @@
+import type { Run, RunStatus } from './schemas';
+
+export const RUN_STATUS_LABELS: Record<RunStatus, string> = {
+  queued: 'Queued',
+  processing: 'Processing',
+  completed: 'Completed',
+  failed: 'Failed',
+};
+
+/** How often pages re-read runs that are still being analyzed. */
+export const RUN_POLL_MS = 2_000;
+
+export function runStatus(run: Pick<Run, 'status'>): RunStatus {
+  return run.status ?? 'completed';
+}
+
+/** Whether the run is still waiting for or going through analysis, so its findings are not there yet. */
+export function isRunPending(run: Pick<Run, 'status'>): boolean {
+  const status = runStatus(run);
+  return status === 'queued' || status === 'processing';
+}
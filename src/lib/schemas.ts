@@ -0,0 +1,204 @@
+import { z } from 'zod';
+
+/**
+ * Some backends serialize the analyzed row as a JSON string instead of an
+ * object; normalize that here so the rest of the app only sees objects.
+ */
+const jsonObject = (value: unknown) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const isoDate = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+export const RowSchema = z.record(z.string(), z.unknown());
+
+export const FINDING_STATUSES = ['open', 'acknowledged', 'fixed', 'false_positive', 'wont_fix'] as const;
+
+export const FindingSchema = z.object({
+  index: z.number().int().nonnegative().nullish(),
+  type: z.string(),
+  reason: z.string(),
+  row: z.preprocess(jsonObject, RowSchema).nullish(),
+  /** Keys of `row` whose values triggered the finding. */
+  fields: z.array(z.string()).nullish(),
+  /** Estimated money at stake, in `currency`; the UI falls back to the row's cost without it. */
+  impact: z.number().nullish(),
+  currency: z.string().nullish(),
+  /** Triage state; a finding nobody has looked at yet has no status and counts as open. */
+  status: z.enum(FINDING_STATUSES).nullish(),
+  assignee: z.string().nullish(),
+  notes: z.string().nullish(),
+  /** Id of the suppression rule that hides this finding; set by the backend when the run is read. */
+  suppressedBy: z.string().nullish(),
+});
+
+/** Lifecycle of a run: analysis happens in the background after it was created. */
+export const RUN_STATUSES = ['queued', 'processing', 'completed', 'failed'] as const;
+
+export const RunSchema = z.object({
+  id: z.string().min(1),
+  createdAt: isoDate,
+  source: z.string().nullish(),
+  /** User-given label and notes; the UI falls back to `source` without a name. */
+  name: z.string().nullish(),
+  description: z.string().nullish(),
+  archived: z.boolean().nullish(),
+  rowCount: z.number().int().nonnegative().nullish(),
+  explain: z.boolean().nullish(),
+  /** Backends without background processing leave it out: their runs are complete once created. */
+  status: z.enum(RUN_STATUSES).nullish(),
+  /** Share of the rows analyzed so far, from 0 to 1, while processing. */
+  progress: z.number().min(0).max(1).nullish(),
+  /** Why analysis failed, for `failed` runs. */
+  error: z.string().nullish(),
+  coverage: z.array(z.string()).nullish(),
+  explanation: z.string().nullish(),
+  /** Positions in `findings` the explanation was asked about; it covers every finding without one. */
+  explanationScope: z.array(z.number().int().nonnegative()).nullish(),
+  findings: z.array(FindingSchema).nullish(),
+  /** Sent by the list endpoint, which leaves out `findings` themselves. */
+  findingCount: z.number().int().nonnegative().nullish(),
+});
+
+export const SuppressionSchema = z.object({
+  id: z.string().min(1),
+  createdAt: isoDate,
+  /** Findings of this type whose row has all of `match`'s values are hidden. */
+  type: z.string().min(1),
+  match: RowSchema,
+  /** Why the finding is benign, shown next to the rule. */
+  reason: z.string().nullish(),
+  /** The rule stops applying at this instant; it applies forever without one. */
+  expiresAt: isoDate.nullish(),
+  /** Findings across all runs that the rule currently hides. */
+  hits: z.number().int().nonnegative().nullish(),
+});
+
+/** A run reduced to what the trends dashboard aggregates. */
+export const RunTrendSchema = RunSchema.pick({ id: true, createdAt: true, name: true, source: true, explain: true }).extend({
+  findingCount: z.number().int().nonnegative(),
+  /** Number of findings of each type. */
+  types: z.record(z.string(), z.number().int().nonnegative()),
+});
+
+export const TrendsResponseSchema = z.object({
+  ok: z.boolean(),
+  /** Oldest first. */
+  runs: z.array(RunTrendSchema),
+});
+
+export const ListRunsResponseSchema = z.object({
+  ok: z.boolean(),
+  nextCursor: z.string().nullish(),
+  runs: z.array(RunSchema),
+});
+
+export const GetRunResponseSchema = z.object({
+  ok: z.boolean(),
+  run: RunSchema,
+});
+
+/** Spend of one day across all analyzed rows of a run, flagged or not. */
+export const DailyCostSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected yyyy-mm-dd'),
+  cost: z.number(),
+  rows: z.number().int().nonnegative(),
+});
+
+export const RunCostsResponseSchema = z.object({
+  ok: z.boolean(),
+  /** Days in ascending order; rows without a date or cost are left out. */
+  days: z.array(DailyCostSchema),
+});
+
+export const CreateRunResponseSchema = z.object({
+  ok: z.boolean(),
+  runId: z.string().min(1),
+});
+
+export const UpdateFindingsResponseSchema = z.object({
+  ok: z.boolean(),
+  updated: z.number().int().nonnegative(),
+});
+
+export const ListSuppressionsResponseSchema = z.object({
+  ok: z.boolean(),
+  suppressions: z.array(SuppressionSchema),
+});
+
+export const SuppressionResponseSchema = z.object({
+  ok: z.boolean(),
+  suppression: SuppressionSchema,
+});
+
+export const CHAT_ROLES = ['user', 'assistant'] as const;
+
+/** One turn of the follow-up conversation about a run. */
+export const ChatMessageSchema = z.object({
+  role: z.enum(CHAT_ROLES),
+  /** Markdown for answers; plain text for questions. */
+  content: z.string(),
+  createdAt: isoDate,
+});
+
+export const ChatResponseSchema = z.object({
+  ok: z.boolean(),
+  /** Oldest first. */
+  messages: z.array(ChatMessageSchema),
+});
+
+/** Data of a `message` event in a streamed explanation or answer: the next piece of text. */
+export const StreamChunkSchema = z.object({
+  text: z.string(),
+});
+
+/**
+ * An event on the runs subscription, typed by the event name. `created` and
+ * `updated` carry the run as `GET /runs` lists it; `reset` means missed
+ * events could not be replayed.
+ */
+export const RunEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('created'), run: RunSchema }),
+  z.object({ type: z.literal('updated'), run: RunSchema }),
+  z.object({ type: z.literal('deleted'), id: z.string().min(1) }),
+  z.object({ type: z.literal('reset') }),
+]);
+
+export const UploadSessionSchema = z.object({
+  ok: z.boolean(),
+  uploadId: z.string().min(1),
+  size: z.number().int().nonnegative(),
+  offset: z.number().int().nonnegative(),
+  chunkSize: z.number().int().positive(),
+});
+
+export const UploadChunkResponseSchema = z.object({
+  ok: z.boolean(),
+  offset: z.number().int().nonnegative(),
+});
+
+export type Row = z.infer<typeof RowSchema>;
+export type Finding = z.infer<typeof FindingSchema>;
+export type FindingStatus = (typeof FINDING_STATUSES)[number];
+export type Run = z.infer<typeof RunSchema>;
+export type RunStatus = (typeof RUN_STATUSES)[number];
+export type RunTrend = z.infer<typeof RunTrendSchema>;
+export type TrendsResponse = z.infer<typeof TrendsResponseSchema>;
+export type ListRunsResponse = z.infer<typeof ListRunsResponseSchema>;
+export type GetRunResponse = z.infer<typeof GetRunResponseSchema>;
+export type DailyCost = z.infer<typeof DailyCostSchema>;
+export type RunCostsResponse = z.infer<typeof RunCostsResponseSchema>;
+export type CreateRunResponse = z.infer<typeof CreateRunResponseSchema>;
+export type UpdateFindingsResponse = z.infer<typeof UpdateFindingsResponseSchema>;
+export type Suppression = z.infer<typeof SuppressionSchema>;
+export type ListSuppressionsResponse = z.infer<typeof ListSuppressionsResponseSchema>;
+export type SuppressionResponse = z.infer<typeof SuppressionResponseSchema>;
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+export type ChatResponse = z.infer<typeof ChatResponseSchema>;
+export type RunEvent = z.infer<typeof RunEventSchema>;
+export type UploadSession = z.infer<typeof UploadSessionSchema>;
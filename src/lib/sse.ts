@@ -0,0 +1,63 @@
+/**
+ * Reader for `text/event-stream` response bodies. `EventSource` cannot send
+ * the secret header or a POST body, so streams are fetched like any other
+ * request and parsed here.
+ */
+
+export interface ServerSentEvent {
+  /** `message` unless the server named the event. */
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Yields events as they complete. Leaving the loop early, or an abort, cancels
+ * the underlying body so the connection is released.
+ */
+export async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = '';
+  let data: string[] = [];
+  let id: string | undefined;
+  let done = false;
+  // A CRLF can be split across chunks; its LF must not end a second, empty line.
+  let skipLineFeed = false;
+
+  try {
+    while (!done) {
+      const chunk = await reader.read();
+      done = chunk.done;
+      const text = chunk.done ? decoder.decode() : decoder.decode(chunk.value, { stream: true });
+      if (text !== '') {
+        buffer += skipLineFeed && text.startsWith('\n') ? text.slice(1) : text;
+        skipLineFeed = text.endsWith('\r');
+      }
+
+      const lines = buffer.split(/\r\n|\r|\n/);
+      // The last piece may be an incomplete line; keep it for the next chunk.
+      buffer = done ? '' : (lines.pop() ?? '');
+
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length > 0) yield { event: event || 'message', data: data.join('\n'), id };
+          event = '';
+          data = [];
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') event = value;
+        else if (field === 'data') data.push(value);
+        else if (field === 'id') id = value;
+      }
+    }
+  } finally {
+    if (!done) await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
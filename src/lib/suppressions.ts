@@ -0,0 +1,113 @@
+import type { SuppressionInput } from './api';
+import type { Finding, Row, Suppression } from './schemas';
+
+/**
+ * Suppression rules hide findings that are known to be benign, e.g. a
+ * reserved-instance prepayment that is flagged as a spike in every run. A rule
+ * matches a finding of its `type` whose row has every value in `match`. The
+ * backend applies the rules when a run is read and marks hidden findings with
+ * `suppressedBy`; the helpers here let the UI preview a rule before saving it.
+ */
+
+/**
+ * Fields preselected when a rule is created from a finding. They name the
+ * resource, which stays the same from one export to the next; date and cost
+ * do not, and would make the rule match only the finding it was made from.
+ */
+const DEFAULT_MATCH_FIELDS = ['account_id', 'service', 'resource_id'];
+
+/** Compares values by their text, so `42` in a rule matches `"42"` from a CSV. */
+function matchText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/** What matching needs of a rule; a draft not yet saved has no id. */
+type RuleConditions = Pick<Suppression, 'type' | 'match' | 'expiresAt'>;
+
+export function isExpired(rule: RuleConditions, now = Date.now()): boolean {
+  return !!rule.expiresAt && Date.parse(rule.expiresAt) <= now;
+}
+
+export function matchesSuppression(rule: RuleConditions, finding: Finding, now = Date.now()): boolean {
+  if (isExpired(rule, now) || rule.type !== finding.type) return false;
+  const row = finding.row ?? {};
+  return Object.entries(rule.match).every(([field, value]) => matchText(row[field]) === matchText(value));
+}
+
+/** The first active rule that hides `finding`, if any. */
+export function findSuppression(rules: Suppression[], finding: Finding, now = Date.now()): Suppression | undefined {
+  return rules.find((rule) => matchesSuppression(rule, finding, now));
+}
+
+export function isSuppressed(finding: Finding): boolean {
+  return !!finding.suppressedBy;
+}
+
+/** Row fields of `finding` that a new rule matches on unless the user picks others. */
+export function defaultMatchFields(finding: Finding): string[] {
+  const row = finding.row ?? {};
+  return DEFAULT_MATCH_FIELDS.filter((field) => matchText(row[field]) !== '');
+}
+
+/** Summarizes a rule's conditions on one line, e.g. `service = EC2 · account_id = 1234`. */
+export function describeMatch(match: Row): string {
+  const parts = Object.entries(match).map(([field, value]) => `${field} = ${matchText(value)}`);
+  return parts.length > 0 ? parts.join(' · ') : 'Any row';
+}
+
+/** The editable state of a rule in the suppression dialog. */
+export interface SuppressionDraft {
+  /** Set when editing an existing rule. */
+  id?: string;
+  type: string;
+  /** Row fields the rule can match on, with the values it would require. */
+  fields: Row;
+  /** Keys of `fields` the rule actually matches on. */
+  selected: string[];
+  reason: string;
+  /** Last day the rule applies, as `yyyy-mm-dd`; empty for no expiry. */
+  expiresOn: string;
+}
+
+export function draftFromFinding(finding: Finding): SuppressionDraft {
+  // Nested values cannot be matched reliably, so only scalar fields are offered.
+  const fields = Object.fromEntries(
+    Object.entries(finding.row ?? {}).filter(([, value]) => ['string', 'number', 'boolean'].includes(typeof value)),
+  );
+  return { type: finding.type, fields, selected: defaultMatchFields(finding), reason: '', expiresOn: '' };
+}
+
+export function draftFromSuppression(rule: Suppression): SuppressionDraft {
+  return {
+    id: rule.id,
+    type: rule.type,
+    fields: rule.match,
+    selected: Object.keys(rule.match),
+    reason: rule.reason ?? '',
+    expiresOn: rule.expiresAt ? expiryToDate(rule.expiresAt) : '',
+  };
+}
+
+/** A rule expiring "on" a local day stops applying at the start of the next one. */
+function dateToExpiry(date: string): string {
+  const end = new Date(`${date}T00:00:00`);
+  end.setDate(end.getDate() + 1);
+  return end.toISOString();
+}
+
+function expiryToDate(expiresAt: string): string {
+  const last = new Date(Date.parse(expiresAt) - 1);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${last.getFullYear()}-${pad(last.getMonth() + 1)}-${pad(last.getDate())}`;
+}
+
+/** The rule a draft describes, in the form the API expects. */
+export function draftToInput(draft: SuppressionDraft): SuppressionInput {
+  return {
+    type: draft.type,
+    match: Object.fromEntries(draft.selected.map((field) => [field, draft.fields[field]])),
+    reason: draft.reason.trim() || null,
+    expiresAt: draft.expiresOn ? dateToExpiry(draft.expiresOn) : null,
+  };
+}
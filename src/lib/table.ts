@@ -0,0 +1,135 @@
+import type { Row } from './schemas';
+
+export type ColumnType = 'integer' | 'number' | 'boolean' | 'date' | 'string' | 'empty';
+
+export interface ParseError {
+  /** 1-based physical line in the file. */
+  line: number;
+  /** 1-based character position within that line. */
+  column: number;
+  message: string;
+}
+
+export interface ColumnInfo {
+  name: string;
+  type: ColumnType;
+}
+
+/**
+ * Tabular view of an upload, whatever its format. This is what the preview
+ * renders; `records` hold display strings in `headers` order.
+ */
+export interface ParsedTable {
+  headers: string[];
+  /** Data records, excluding the header. Blank lines are skipped. */
+  records: string[][];
+  columns: ColumnInfo[];
+  errors: ParseError[];
+}
+
+const INTEGER = /^[-+]?\d+$/;
+const NUMBER = /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?$/;
+const BOOLEAN = /^(true|false|yes|no)$/i;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const SLASH_DATE = /^\d{1,2}\/\d{1,2}\/\d{2,4}$/;
+
+function valueType(value: string): Exclude<ColumnType, 'empty'> {
+  if (INTEGER.test(value)) return 'integer';
+  if (NUMBER.test(value) && /\d/.test(value)) return 'number';
+  if (BOOLEAN.test(value)) return 'boolean';
+  if ((ISO_DATE.test(value) || SLASH_DATE.test(value)) && !Number.isNaN(Date.parse(value))) return 'date';
+  return 'string';
+}
+
+/**
+ * Infers a column's type from its non-empty values. Integers widen to
+ * numbers; any other disagreement makes the column a string.
+ */
+export function inferColumnType(values: string[]): ColumnType {
+  let type: ColumnType = 'empty';
+  for (const raw of values) {
+    const value = raw.trim();
+    if (value === '') continue;
+    const next = valueType(value);
+    if (type === 'empty' || type === next) {
+      type = next;
+    } else if ((type === 'integer' && next === 'number') || (type === 'number' && next === 'integer')) {
+      type = 'number';
+    } else {
+      return 'string';
+    }
+  }
+  return type;
+}
+
+/** Turns parsed records into row objects keyed by header. */
+export function toRows(parsed: Pick<ParsedTable, 'headers' | 'records'>): Record<string, string>[] {
+  return parsed.records.map((record) => Object.fromEntries(parsed.headers.map((header, idx) => [header, record[idx] ?? ''])));
+}
+
+function displayValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/** Builds the table view for rows that did not come from a CSV (JSON, NDJSON). */
+export function tableFromRows(rows: Row[], errors: ParseError[] = [], typeSampleSize = 1000): ParsedTable {
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  for (const row of rows.slice(0, typeSampleSize)) {
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    }
+  }
+
+  const records = rows.map((row) => headers.map((header) => displayValue(row[header])));
+  const sample = records.slice(0, typeSampleSize);
+  const columns = headers.map((name, idx) => ({
+    name,
+    type: inferColumnType(sample.map((record) => record[idx])),
+  }));
+  return { headers, records, columns, errors };
+}
+
+/**
+ * Builds the table view for a grid whose first row is the header, as read
+ * from a spreadsheet. Errors point at the spreadsheet row and column.
+ */
+export function tableFromGrid(grid: string[][], typeSampleSize = 1000): ParsedTable {
+  const [headerRow, ...body] = grid;
+  if (!headerRow) {
+    return { headers: [], records: [], columns: [], errors: [{ line: 1, column: 1, message: 'Sheet is empty' }] };
+  }
+
+  // Spreadsheets often have blank spacer columns; only complain about a
+  // missing header when the column actually holds data.
+  const kept = headerRow
+    .map((_, idx) => idx)
+    .filter((idx) => headerRow[idx].trim() !== '' || body.some((record) => (record[idx] ?? '') !== ''));
+
+  const errors: ParseError[] = [];
+  const headers = kept.map((idx) => headerRow[idx].trim());
+  const seen = new Set<string>();
+  headers.forEach((header, i) => {
+    const column = kept[i] + 1;
+    if (header === '') {
+      errors.push({ line: 1, column, message: `Header ${column} is empty` });
+    } else if (seen.has(header)) {
+      errors.push({ line: 1, column, message: `Duplicate header "${header}"` });
+    }
+    seen.add(header);
+  });
+
+  const records = body
+    .filter((record) => record.some((value) => value !== ''))
+    .map((record) => kept.map((idx) => record[idx] ?? ''));
+  const sample = records.slice(0, typeSampleSize);
+  const columns = headers.map((name, idx) => ({
+    name,
+    type: inferColumnType(sample.map((record) => record[idx] ?? '')),
+  }));
+  return { headers, records, columns, errors };
+}
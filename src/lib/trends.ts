@@ -0,0 +1,140 @@
+import type { RunTrend } from './schemas';
+
+/**
+ * Aggregations for the trends dashboard. The backend sends one entry per run
+ * in the chosen period; everything here is summed up in the browser.
+ */
+
+/** Inclusive `YYYY-MM-DD` bounds in local time, as used by `RunFilters`. */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_DAYS = 30;
+
+/** Formats a date as its local `YYYY-MM-DD`. */
+export function toLocalDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** The last `days` days up to and including today. */
+export function lastDays(days: number, now = new Date()): DateRange {
+  const from = new Date(now);
+  from.setDate(from.getDate() - (days - 1));
+  return { from: toLocalDate(from), to: toLocalDate(now) };
+}
+
+/** Reads the range from page query parameters, falling back to the last 30 days. */
+export function parseDateRange(params: URLSearchParams, now = new Date()): DateRange {
+  const from = params.get('from');
+  const to = params.get('to');
+  if (from && to && DATE_PATTERN.test(from) && DATE_PATTERN.test(to) && from <= to) return { from, to };
+  return lastDays(DEFAULT_DAYS, now);
+}
+
+export function writeDateRange(range: DateRange, params = new URLSearchParams()): URLSearchParams {
+  const result = new URLSearchParams(params);
+  result.set('from', range.from);
+  result.set('to', range.to);
+  return result;
+}
+
+export interface DayTrend {
+  date: string;
+  runs: number;
+  findings: number;
+  /** Average findings per run; 0 on days without runs. */
+  perRun: number;
+}
+
+export interface GroupTrend {
+  key: string;
+  findings: number;
+  /** Runs with at least one finding of this type or from this source. */
+  runs: number;
+}
+
+export interface Trends {
+  days: DayTrend[];
+  /** Finding types by the number of runs they recur in. */
+  types: GroupTrend[];
+  /** Sources by the number of findings their runs produced. */
+  sources: GroupTrend[];
+  totalRuns: number;
+  totalFindings: number;
+  explainedRuns: number;
+}
+
+/** Label for runs that have no source, e.g. rows pasted as JSON. */
+export const UNKNOWN_SOURCE = '(no source)';
+
+export function runDate(run: RunTrend): string {
+  return toLocalDate(new Date(run.createdAt));
+}
+
+function addTo(groups: Map<string, GroupTrend>, key: string, findings: number) {
+  const group = groups.get(key) ?? { key, findings: 0, runs: 0 };
+  group.findings += findings;
+  group.runs++;
+  groups.set(key, group);
+}
+
+export function aggregateTrends(runs: RunTrend[], range: DateRange): Trends {
+  const days = new Map<string, DayTrend>();
+  // Every day of the range gets an entry, so quiet days show as gaps in the chart.
+  for (let day = new Date(`${range.from}T00:00:00`); toLocalDate(day) <= range.to; day.setDate(day.getDate() + 1)) {
+    const date = toLocalDate(day);
+    days.set(date, { date, runs: 0, findings: 0, perRun: 0 });
+  }
+
+  const types = new Map<string, GroupTrend>();
+  const sources = new Map<string, GroupTrend>();
+  let totalFindings = 0;
+  let explainedRuns = 0;
+
+  for (const run of runs) {
+    const day = days.get(runDate(run));
+    if (day) {
+      day.runs++;
+      day.findings += run.findingCount;
+    }
+    Object.entries(run.types).forEach(([type, count]) => addTo(types, type, count));
+    addTo(sources, run.source || UNKNOWN_SOURCE, run.findingCount);
+    totalFindings += run.findingCount;
+    if (run.explain) explainedRuns++;
+  }
+  days.forEach((day) => (day.perRun = day.runs > 0 ? Math.round((day.findings / day.runs) * 10) / 10 : 0));
+
+  return {
+    days: [...days.values()],
+    types: [...types.values()].sort((a, b) => b.runs - a.runs || b.findings - a.findings || a.key.localeCompare(b.key)),
+    sources: [...sources.values()].sort((a, b) => b.findings - a.findings || a.key.localeCompare(b.key)),
+    totalRuns: runs.length,
+    totalFindings,
+    explainedRuns,
+  };
+}
+
+/** A chart element the user clicked, narrowing the runs table below the charts. */
+export type TrendDrilldown =
+  | { kind: 'date'; value: string }
+  | { kind: 'type'; value: string }
+  | { kind: 'source'; value: string }
+  | { kind: 'explain'; value: boolean };
+
+export function drillRuns(runs: RunTrend[], drilldown: TrendDrilldown | null): RunTrend[] {
+  if (!drilldown) return runs;
+  switch (drilldown.kind) {
+    case 'date':
+      return runs.filter((run) => runDate(run) === drilldown.value);
+    case 'type':
+      return runs.filter((run) => (run.types[drilldown.value] ?? 0) > 0);
+    case 'source':
+      return runs.filter((run) => (run.source || UNKNOWN_SOURCE) === drilldown.value);
+    case 'explain':
+      return runs.filter((run) => !!run.explain === drilldown.value);
+  }
+}
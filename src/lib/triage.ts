@@ -0,0 +1,22 @@
+import { FINDING_STATUSES, type Finding, type FindingStatus } from './schemas';
+
+export const STATUS_LABELS: Record<FindingStatus, string> = {
+  open: 'Open',
+  acknowledged: 'Acknowledged',
+  fixed: 'Fixed',
+  false_positive: 'False positive',
+  wont_fix: "Won't fix",
+};
+
+/** Statuses that need no further action; everything else is still on someone's list. */
+export const CLOSED_STATUSES: FindingStatus[] = ['fixed', 'false_positive', 'wont_fix'];
+
+export function findingStatus(finding: Finding): FindingStatus {
+  return finding.status ?? 'open';
+}
+
+export function countByStatus(findings: Finding[]): Record<FindingStatus, number> {
+  const counts = Object.fromEntries(FINDING_STATUSES.map((status) => [status, 0])) as Record<FindingStatus, number>;
+  findings.forEach((finding) => counts[findingStatus(finding)]++);
+  return counts;
+}
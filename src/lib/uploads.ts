@@ -0,0 +1,139 @@
+import { parseCsv, type CsvDelimiter } from './csv';
+import { readFileHead, readFileText } from './files';
+import { parseJsonRows } from './json-rows';
+import type { Row } from './schemas';
+import { tableFromGrid, tableFromRows, toRows, type ParsedTable } from './table';
+import { openWorkbook, type Workbook } from './xlsx';
+
+export type UploadFormat = 'csv' | 'xlsx' | 'json' | 'ndjson';
+
+/**
+ * A file read into memory and ready for preview and mapping. `table` feeds
+ * the preview; `rows` are what gets mapped and submitted.
+ */
+export interface LoadedUpload {
+  format: UploadFormat;
+  table: ParsedTable;
+  rows: Row[];
+  /** Short description for the preview, e.g. "comma-delimited". */
+  detail: string;
+  /** Only for workbooks: every sheet, and the one currently loaded. */
+  workbook?: Workbook;
+  sheet?: string;
+  /**
+   * Set for large files of which only the beginning was read: `table` and
+   * `rows` are a sample, and the file itself has to be uploaded in chunks.
+   */
+  partial?: boolean;
+}
+
+const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'comma-delimited',
+  ';': 'semicolon-delimited',
+  '\t': 'tab-delimited',
+};
+
+export const UPLOAD_ACCEPT = '.csv,.gz,.xlsx,.json,.jsonl,.ndjson';
+
+/** Files above this size are previewed from their head and uploaded in chunks. */
+export const LARGE_FILE_BYTES = 20 * 1024 * 1024;
+const HEAD_CHARS = 1024 * 1024;
+
+function isJsonName(name: string) {
+  return name.endsWith('.json') || name.endsWith('.jsonl') || name.endsWith('.ndjson');
+}
+
+async function isZip(file: Blob): Promise<boolean> {
+  const header = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return header[0] === 0x50 && header[1] === 0x4b && header[2] === 0x03 && header[3] === 0x04;
+}
+
+/** Loads one sheet of a workbook that has already been opened. */
+export async function loadSheet(workbook: Workbook, sheet: string): Promise<LoadedUpload> {
+  const table = tableFromGrid(await workbook.readSheet(sheet));
+  return {
+    format: 'xlsx',
+    table,
+    rows: table.errors.length === 0 ? toRows(table) : [],
+    detail: `sheet "${sheet}" of ${workbook.sheetNames.length}`,
+    workbook,
+    sheet,
+  };
+}
+
+/**
+ * Reads a CSV (optionally gzipped), XLSX, JSON or NDJSON file. The format is
+ * taken from the extension, except that zip content is always a workbook.
+ */
+export async function loadUpload(file: File): Promise<LoadedUpload> {
+  const name = file.name.toLowerCase().replace(/\.gz$/, '');
+
+  if (name.endsWith('.xlsx') || (await isZip(file))) {
+    const workbook = await openWorkbook(file);
+    if (workbook.sheetNames.length === 0) throw new Error('Workbook has no sheets');
+    return loadSheet(workbook, workbook.sheetNames[0]);
+  }
+
+  const text = await readFileText(file);
+  if (isJsonName(name)) {
+    const parsed = parseJsonRows(text);
+    return {
+      format: parsed.format === 'array' ? 'json' : 'ndjson',
+      table: tableFromRows(parsed.rows, parsed.errors),
+      rows: parsed.rows,
+      detail: parsed.format === 'array' ? 'JSON array' : 'JSON Lines',
+    };
+  }
+
+  const parsed = parseCsv(text);
+  return {
+    format: 'csv',
+    table: parsed,
+    rows: toRows(parsed),
+    detail: DELIMITER_LABELS[parsed.delimiter],
+  };
+}
+
+/**
+ * Like `loadUpload`, but for CSV and JSON Lines only reads the first
+ * megabyte, so that a multi-hundred-megabyte export can be previewed and
+ * mapped without freezing the tab. Workbooks and JSON arrays cannot be read
+ * partially and are loaded in full.
+ */
+export async function loadUploadHead(file: File): Promise<LoadedUpload> {
+  const name = file.name.toLowerCase().replace(/\.gz$/, '');
+  if (name.endsWith('.xlsx') || name.endsWith('.json') || (await isZip(file))) {
+    return loadUpload(file);
+  }
+
+  const { text, complete } = await readFileHead(file, HEAD_CHARS);
+  if (complete) return loadUpload(file);
+  const sizeMb = `${(file.size / 1024 / 1024).toFixed(0)} MB`;
+
+  if (isJsonName(name)) {
+    const parsed = parseJsonRows(text);
+    return {
+      format: 'ndjson',
+      table: tableFromRows(parsed.rows, parsed.errors),
+      rows: parsed.rows,
+      detail: `JSON Lines, first ${parsed.rows.length.toLocaleString()} rows of ${sizeMb}`,
+      partial: true,
+    };
+  }
+
+  const parsed = parseCsv(text);
+  // The cut may land inside a quoted field with embedded newlines; that last
+  // record is an artifact of sampling, not a problem with the file.
+  const truncated = parsed.errors.some((error) => error.message === 'Unterminated quoted field');
+  if (truncated) {
+    parsed.records.pop();
+    parsed.errors = parsed.errors.filter((error) => error.message !== 'Unterminated quoted field');
+  }
+  return {
+    format: 'csv',
+    table: parsed,
+    rows: toRows(parsed),
+    detail: `${DELIMITER_LABELS[parsed.delimiter]}, first ${parsed.records.length.toLocaleString()} rows of ${sizeMb}`,
+    partial: true,
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * Minimal reader for Office Open XML workbooks (.xlsx). It understands just
+ * enough of the format to turn each worksheet into a grid of display strings:
+ * shared and inline strings, booleans, numbers and date-formatted numbers.
+ * Formulas yield their cached values. Decompression uses the browser's
+ * `DecompressionStream`, so no third-party zip library is needed.
+ */
+
+export class XlsxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XlsxError';
+  }
+}
+
+export interface Workbook {
+  sheetNames: string[];
+  /** Rows of the named sheet, the first one usually being the header. */
+  readSheet: (name: string) => Promise<string[][]>;
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipDirectory(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The end-of-central-directory record sits in the last 64 KiB + 22 bytes.
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65_557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new XlsxError('File is not a valid .xlsx workbook');
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new XlsxError('Corrupt workbook directory');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipEntry(bytes: Uint8Array, entry: ZipEntry): Promise<string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const start = entry.localHeaderOffset;
+  const dataStart = start + 30 + view.getUint16(start + 26, true) + view.getUint16(start + 28, true);
+  const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new XlsxError(`Unsupported compression method ${entry.method}`);
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new XlsxError('Workbook contains malformed XML');
+  return doc;
+}
+
+/** Elements by local name, ignoring whichever namespace prefix the writer used. */
+function elements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+function attribute(element: Element, localName: string): string | null {
+  for (const attr of Array.from(element.attributes)) {
+    if (attr.localName === localName) return attr.value;
+  }
+  return null;
+}
+
+/** "AB12" → 27 (zero-based column index). */
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, '')) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+/** Whether a custom number format code renders a date or time. */
+function isDateFormat(code: string): boolean {
+  const stripped = code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+  return /[dmyhs]/i.test(stripped) && !/^general$/i.test(stripped);
+}
+
+function readDateStyles(styles: Document | null): boolean[] {
+  if (!styles) return [];
+  const customDate = new Set<number>();
+  for (const format of elements(styles, 'numFmt')) {
+    if (isDateFormat(attribute(format, 'formatCode') ?? '')) customDate.add(Number(attribute(format, 'numFmtId')));
+  }
+  const cellXfs = elements(styles, 'cellXfs')[0];
+  if (!cellXfs) return [];
+  return elements(cellXfs, 'xf').map((xf) => {
+    const id = Number(attribute(xf, 'numFmtId') ?? 0);
+    return BUILTIN_DATE_FORMATS.has(id) || customDate.has(id);
+  });
+}
+
+function serialToDate(serial: number, date1904: boolean): string {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const date = new Date(epoch + Math.round(serial * 86_400_000));
+  const iso = date.toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso.slice(0, 19);
+}
+
+function textContent(element: Element): string {
+  // Rich text runs each carry their own <t>; phonetic hints (<rPh>) are skipped.
+  return elements(element, 't')
+    .filter((t) => t.parentElement?.localName !== 'rPh')
+    .map((t) => t.textContent ?? '')
+    .join('');
+}
+
+function resolveTarget(target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = `xl/${target}`.split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part !== '.') resolved.push(part);
+  }
+  return resolved.join('/');
+}
+
+export async function openWorkbook(file: Blob): Promise<Workbook> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const directory = readZipDirectory(bytes);
+
+  const read = async (path: string): Promise<Document | null> => {
+    const entry = directory.get(path);
+    return entry ? parseXml(await readZipEntry(bytes, entry)) : null;
+  };
+
+  const workbook = await read('xl/workbook.xml');
+  const relationships = await read('xl/_rels/workbook.xml.rels');
+  if (!workbook || !relationships) throw new XlsxError('File is not a valid .xlsx workbook');
+
+  const targets = new Map(elements(relationships, 'Relationship').map((rel) => [attribute(rel, 'Id'), attribute(rel, 'Target') ?? '']));
+  const sheets = elements(workbook, 'sheet').map((sheet) => ({
+    name: attribute(sheet, 'name') ?? '',
+    path: resolveTarget(targets.get(attribute(sheet, 'id')) ?? ''),
+  }));
+  const date1904 = elements(workbook, 'workbookPr').some((pr) => ['1', 'true'].includes(attribute(pr, 'date1904') ?? ''));
+
+  const sharedStringsDoc = await read('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsDoc ? elements(sharedStringsDoc, 'si').map(textContent) : [];
+  const dateStyles = readDateStyles(await read('xl/styles.xml'));
+
+  const readSheet = async (name: string): Promise<string[][]> => {
+    const sheet = sheets.find((s) => s.name === name);
+    const doc = sheet ? await read(sheet.path) : null;
+    if (!doc) throw new XlsxError(`Sheet "${name}" not found`);
+
+    const grid: string[][] = [];
+    let nextRow = 0;
+    for (const row of elements(doc, 'row')) {
+      const rowIndex = attribute(row, 'r') ? Number(attribute(row, 'r')) - 1 : nextRow;
+      nextRow = rowIndex + 1;
+      const values: string[] = [];
+      let nextColumn = 0;
+
+      for (const cell of elements(row, 'c')) {
+        const reference = attribute(cell, 'r');
+        const col = reference ? columnIndex(reference) : nextColumn;
+        nextColumn = col + 1;
+        const type = attribute(cell, 't') ?? 'n';
+        const raw = elements(cell, 'v')[0]?.textContent ?? '';
+
+        let value: string;
+        if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+        else if (type === 'inlineStr') value = elements(cell, 'is')[0] ? textContent(elements(cell, 'is')[0]) : '';
+        else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+        else if (type === 'n' && raw !== '' && dateStyles[Number(attribute(cell, 's') ?? 0)]) value = serialToDate(Number(raw), date1904);
+        else if (type === 'n' && raw !== '') value = String(Number(raw));
+        else value = raw;
+
+        while (values.length < col) values.push('');
+        values[col] = value;
+      }
+      grid[rowIndex] = values;
+    }
+
+    const rows = Array.from(grid, (values) => values ?? []);
+    while (rows.length > 0 && rows[rows.length - 1].every((value) => value === '')) rows.pop();
+    // Reduced rather than spread into Math.max, which overflows the stack on large sheets.
+    const width = rows.reduce((max, values) => Math.max(max, values.length), 0);
+    return rows.map((values) => [...values, ...Array(width - values.length).fill('')]);
+  };
+
+  return { sheetNames: sheets.map((sheet) => sheet.name), readSheet };
+}
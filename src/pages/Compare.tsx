@@ -0,0 +1,339 @@
+import { useMemo } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import RunProgress from "@/components/RunProgress";
+import { getRun, describeError, ApiError, type Finding, type Run } from "@/lib/api";
+import { compareRuns, type PersistingFinding } from "@/lib/compare";
+import { isRunPending, RUN_POLL_MS, runStatus } from "@/lib/run-status";
+import { ArrowLeft, ArrowLeftRight, ArrowRight, Loader2, RefreshCw } from "lucide-react";
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta.toLocaleString()}` : delta.toLocaleString());
+
+const runLabel = (run: Run) => run.name || run.source || run.id.substring(0, 8);
+
+/** The identifying fields of a finding's row, for a compact one-line summary. */
+const rowSummary = (finding: Finding) => {
+  const row = finding.row ?? {};
+  const parts = ["date", "service", "resource_id", "cost"]
+    .filter((field) => row[field] !== undefined && row[field] !== "")
+    .map((field) => formatValue(row[field]));
+  return parts.length > 0 ? parts.join(" · ") : "—";
+};
+
+const FindingsTable = ({ findings, empty }: { findings: Finding[]; empty: string }) => {
+  if (findings.length === 0) {
+    return <p className="text-center py-8 text-muted-foreground">{empty}</p>;
+  }
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Index</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Reason</TableHead>
+          <TableHead>Row</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {findings.map((finding, idx) => (
+          <TableRow key={idx}>
+            <TableCell className="font-mono">{finding.index ?? "—"}</TableCell>
+            <TableCell>
+              <Badge variant="outline">{finding.type}</Badge>
+            </TableCell>
+            <TableCell>{finding.reason}</TableCell>
+            <TableCell className="font-mono text-xs text-muted-foreground">{rowSummary(finding)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+const PersistingTable = ({ findings }: { findings: PersistingFinding[] }) => {
+  if (findings.length === 0) {
+    return <p className="text-center py-8 text-muted-foreground">No findings appear in both runs</p>;
+  }
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Index</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Row</TableHead>
+          <TableHead>Changes</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {findings.map(({ before, after, changes }, idx) => (
+          <TableRow key={idx}>
+            <TableCell className="font-mono whitespace-nowrap">
+              {before.index ?? "—"} → {after.index ?? "—"}
+            </TableCell>
+            <TableCell>
+              <Badge variant="outline">{after.type}</Badge>
+            </TableCell>
+            <TableCell className="font-mono text-xs text-muted-foreground">{rowSummary(after)}</TableCell>
+            <TableCell>
+              {changes.length === 0 ? (
+                <span className="text-muted-foreground">Unchanged</span>
+              ) : (
+                <ul className="space-y-1 font-mono text-xs">
+                  {changes.map((change) => (
+                    <li key={change.field}>
+                      <span className="text-muted-foreground">{change.field}:</span>{" "}
+                      <span className="line-through text-destructive/80">{formatValue(change.before)}</span>{" "}
+                      <span className="text-primary">{formatValue(change.after)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+interface StatProps {
+  label: string;
+  before: number;
+  after: number;
+  /** Color the delta, red for an increase; off for neutral quantities. */
+  highlight?: boolean;
+}
+
+const Stat = ({ label, before, after, highlight }: StatProps) => (
+  <Card>
+    <CardContent className="pt-6">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="text-2xl font-bold">
+        {after.toLocaleString()}{" "}
+        <span
+          className={`text-sm font-medium ${
+            highlight && after > before ? "text-destructive" : highlight && after < before ? "text-primary" : "text-muted-foreground"
+          }`}
+        >
+          ({formatDelta(after - before)})
+        </span>
+      </p>
+      <p className="text-xs text-muted-foreground">was {before.toLocaleString()}</p>
+    </CardContent>
+  </Card>
+);
+
+const Compare = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const baseId = searchParams.get("a");
+  const nextId = searchParams.get("b");
+
+  const base = useQuery({
+    queryKey: ["run", baseId],
+    queryFn: ({ signal }) => getRun(baseId!, signal),
+    enabled: !!baseId,
+    refetchInterval: (query) => (query.state.data && isRunPending(query.state.data.run) ? RUN_POLL_MS : false),
+  });
+  const next = useQuery({
+    queryKey: ["run", nextId],
+    queryFn: ({ signal }) => getRun(nextId!, signal),
+    enabled: !!nextId,
+    refetchInterval: (query) => (query.state.data && isRunPending(query.state.data.run) ? RUN_POLL_MS : false),
+  });
+
+  const baseRun = base.data?.run;
+  const nextRun = next.data?.run;
+  // Runs without findings yet would show every finding of the other run as new or resolved.
+  const notReady = [baseRun, nextRun].filter((run): run is Run => !!run && runStatus(run) !== "completed");
+  const comparison = useMemo(
+    () =>
+      baseRun && nextRun && runStatus(baseRun) === "completed" && runStatus(nextRun) === "completed"
+        ? compareRuns(baseRun, nextRun)
+        : null,
+    [baseRun, nextRun],
+  );
+
+  const header = (
+    <header className="border-b border-border/50 bg-card/50 backdrop-blur-md sticky top-0 z-50 shadow-lg shadow-primary/5">
+      <div className="container mx-auto px-6 py-6">
+        <Button variant="ghost" onClick={() => navigate("/")} className="mb-4 hover:text-primary hover:bg-primary/10">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to runs
+        </Button>
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Compare runs</h1>
+            {baseRun && nextRun && (
+              <p className="text-sm text-muted-foreground mt-1 flex items-center gap-2 flex-wrap">
+                <Link to={`/run/${baseRun.id}`} className="hover:text-primary hover:underline">
+                  {runLabel(baseRun)} ({new Date(baseRun.createdAt).toLocaleString()})
+                </Link>
+                <ArrowRight className="w-4 h-4" />
+                <Link to={`/run/${nextRun.id}`} className="hover:text-primary hover:underline">
+                  {runLabel(nextRun)} ({new Date(nextRun.createdAt).toLocaleString()})
+                </Link>
+              </p>
+            )}
+          </div>
+          {baseId && nextId && (
+            <Button variant="outline" onClick={() => setSearchParams({ a: nextId, b: baseId }, { replace: true })}>
+              <ArrowLeftRight className="w-4 h-4 mr-2" />
+              Swap
+            </Button>
+          )}
+        </div>
+      </div>
+    </header>
+  );
+
+  if (!baseId || !nextId) {
+    return (
+      <div className="min-h-screen bg-background">
+        {header}
+        <main className="container mx-auto px-6 py-8">
+          <Card>
+            <CardContent className="pt-6 text-muted-foreground">
+              Select two runs in the runs table and click Compare.
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  if (base.isLoading || next.isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const failed = base.error ? base : next.error ? next : null;
+  if (!failed && notReady.length > 0) {
+    return (
+      <div className="min-h-screen bg-background">
+        {header}
+        <main className="container mx-auto px-6 py-8 space-y-6 max-w-7xl">
+          <p className="text-muted-foreground">The comparison appears once both runs have been analyzed.</p>
+          {notReady.map((run) => (
+            <div key={run.id} className="space-y-2">
+              <Link to={`/run/${run.id}`} className="text-sm font-medium hover:text-primary hover:underline">
+                {runLabel(run)}
+              </Link>
+              <RunProgress run={run} />
+            </div>
+          ))}
+        </main>
+      </div>
+    );
+  }
+
+  if (failed || !baseRun || !nextRun || !comparison) {
+    const { title, description } = failed
+      ? describeError(failed.error)
+      : { title: "Error Loading Runs", description: "Failed to load run details" };
+    const canRetry = !(failed?.error instanceof ApiError) || failed.error.retryable;
+
+    return (
+      <div className="min-h-screen bg-background">
+        {header}
+        <main className="container mx-auto px-6 py-8">
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              <p className="font-medium text-destructive">{title}</p>
+              <p className="text-muted-foreground">{description}</p>
+              {canRetry && (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    base.refetch();
+                    next.refetch();
+                  }}
+                  disabled={base.isRefetching || next.isRefetching}
+                >
+                  <RefreshCw className={`w-4 h-4 mr-2 ${base.isRefetching || next.isRefetching ? "animate-spin" : ""}`} />
+                  Retry
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {header}
+
+      <main className="container mx-auto px-6 py-8 space-y-6 max-w-7xl">
+        <div className="grid gap-4 md:grid-cols-3">
+          <Stat label="Rows" before={baseRun.rowCount ?? 0} after={nextRun.rowCount ?? 0} />
+          <Stat label="Findings" before={baseRun.findings?.length ?? 0} after={nextRun.findings?.length ?? 0} highlight />
+          <Card>
+            <CardContent className="pt-6 space-y-2">
+              <p className="text-sm text-muted-foreground">Coverage</p>
+              {comparison.coverageAdded.length === 0 && comparison.coverageRemoved.length === 0 ? (
+                <p className="text-sm">Unchanged</p>
+              ) : (
+                <div className="flex gap-1 flex-wrap">
+                  {comparison.coverageAdded.map((key) => (
+                    <Badge key={key} variant="outline" className="text-xs bg-primary/20 border-primary/40 text-primary">
+                      +{key}
+                    </Badge>
+                  ))}
+                  {comparison.coverageRemoved.map((key) => (
+                    <Badge key={key} variant="outline" className="text-xs border-destructive/40 text-destructive">
+                      −{key}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="border-primary/20 shadow-lg shadow-primary/10 bg-gradient-to-br from-card to-card/50">
+          <CardHeader className="border-b border-border/50">
+            <CardTitle className="text-xl bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+              Findings
+            </CardTitle>
+            <CardDescription>Matched by finding type and the account, service and resource of the row; a changed date shows under Changes</CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <Tabs defaultValue="added">
+              <TabsList>
+                <TabsTrigger value="added">New ({comparison.added.length})</TabsTrigger>
+                <TabsTrigger value="resolved">Resolved ({comparison.resolved.length})</TabsTrigger>
+                <TabsTrigger value="persisting">Persisting ({comparison.persisting.length})</TabsTrigger>
+              </TabsList>
+              <TabsContent value="added">
+                <FindingsTable findings={comparison.added} empty="No new findings" />
+              </TabsContent>
+              <TabsContent value="resolved">
+                <FindingsTable findings={comparison.resolved} empty="No findings were resolved" />
+              </TabsContent>
+              <TabsContent value="persisting">
+                <PersistingTable findings={comparison.persisting} />
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Compare;
@@ -0,0 +1,367 @@
+import { useMemo, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Cell, ComposedChart, Line, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import DateRangePicker from "@/components/DateRangePicker";
+import { getTrends, describeError, ApiError, type RunTrend } from "@/lib/api";
+import { writeRunFilters, type RunFilters } from "@/lib/run-filters";
+import {
+  aggregateTrends,
+  drillRuns,
+  parseDateRange,
+  UNKNOWN_SOURCE,
+  writeDateRange,
+  type DateRange,
+  type TrendDrilldown,
+} from "@/lib/trends";
+import { ArrowLeft, ExternalLink, Loader2, RefreshCw, X } from "lucide-react";
+
+/** Bars per ranking chart. */
+const TOP = 8;
+
+const timeConfig = {
+  findings: { label: "Findings", color: "hsl(var(--primary))" },
+  perRun: { label: "Findings per run", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+const typeConfig = {
+  runs: { label: "Runs", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const sourceConfig = {
+  findings: { label: "Findings", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+const explainConfig = {
+  explained: { label: "With explanation", color: "hsl(var(--primary))" },
+  plain: { label: "Without", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const runLabel = (run: RunTrend) => run.name || run.source || run.id.substring(0, 8);
+
+const describeDrilldown = (drilldown: TrendDrilldown) => {
+  switch (drilldown.kind) {
+    case "date":
+      return `Runs on ${new Date(`${drilldown.value}T00:00:00`).toLocaleDateString()}`;
+    case "type":
+      return `Runs with ${drilldown.value} findings`;
+    case "source":
+      return `Runs from ${drilldown.value}`;
+    case "explain":
+      return drilldown.value ? "Runs with an explanation" : "Runs without an explanation";
+  }
+};
+
+/** The Recent Runs filters showing the same runs, where the runs list can express them. */
+const runsListFilters = (range: DateRange, drilldown: TrendDrilldown | null): RunFilters => {
+  const filters: RunFilters = { from: range.from, to: range.to };
+  if (drilldown?.kind === "date") return { from: drilldown.value, to: drilldown.value };
+  if (drilldown?.kind === "source" && drilldown.value !== UNKNOWN_SOURCE) filters.source = drilldown.value;
+  if (drilldown?.kind === "explain") filters.explain = drilldown.value;
+  return filters;
+};
+
+const Stat = ({ label, value, detail }: { label: string; value: string; detail?: string }) => (
+  <Card>
+    <CardContent className="pt-6">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="text-2xl font-bold">{value}</p>
+      {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+    </CardContent>
+  </Card>
+);
+
+const ChartCard = ({ title, description, children }: { title: string; description: string; children: React.ReactNode }) => (
+  <Card className="border-primary/20">
+    <CardHeader className="pb-2">
+      <CardTitle className="text-base">{title}</CardTitle>
+      <CardDescription>{description}</CardDescription>
+    </CardHeader>
+    <CardContent>{children}</CardContent>
+  </Card>
+);
+
+const Dashboard = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const range = useMemo(() => parseDateRange(searchParams), [searchParams]);
+  const [drilldown, setDrilldown] = useState<TrendDrilldown | null>(null);
+
+  const { data, isLoading, error, refetch, isRefetching } = useQuery({
+    queryKey: ["trends", range],
+    queryFn: ({ signal }) => getTrends({ from: range.from, to: range.to }, signal),
+  });
+
+  const runs = useMemo(() => data?.runs ?? [], [data]);
+  const trends = useMemo(() => aggregateTrends(runs, range), [runs, range]);
+  const drilled = useMemo(() => [...drillRuns(runs, drilldown)].reverse(), [runs, drilldown]);
+
+  const setRange = (next: DateRange) => {
+    setDrilldown(null);
+    setSearchParams((prev) => writeDateRange(next, prev), { replace: true });
+  };
+
+  // Clicking the selected element again clears the drilldown.
+  const drill = (next: TrendDrilldown) =>
+    setDrilldown((prev) => (prev?.kind === next.kind && prev.value === next.value ? null : next));
+  const isDrilled = (kind: TrendDrilldown["kind"], value: string | boolean) =>
+    !drilldown || (drilldown.kind === kind && drilldown.value === value);
+
+  const explainData = [
+    { key: "explained", runs: trends.explainedRuns, fill: "var(--color-explained)" },
+    { key: "plain", runs: trends.totalRuns - trends.explainedRuns, fill: "var(--color-plain)" },
+  ];
+
+  let content;
+  if (isLoading) {
+    content = (
+      <div className="flex justify-center py-16">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  } else if (error) {
+    const { title, description } = describeError(error);
+    const canRetry = !(error instanceof ApiError) || error.retryable;
+    content = (
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <p className="font-medium text-destructive">{title}</p>
+          <p className="text-muted-foreground">{description}</p>
+          {canRetry && (
+            <Button variant="outline" onClick={() => refetch()} disabled={isRefetching}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isRefetching ? "animate-spin" : ""}`} />
+              Retry
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    );
+  } else if (runs.length === 0) {
+    content = (
+      <Card>
+        <CardContent className="pt-6 text-muted-foreground">No runs in this period. Pick a longer range.</CardContent>
+      </Card>
+    );
+  } else {
+    content = (
+      <>
+        <div className="grid gap-4 md:grid-cols-4">
+          <Stat label="Runs" value={trends.totalRuns.toLocaleString()} />
+          <Stat label="Findings" value={trends.totalFindings.toLocaleString()} />
+          <Stat
+            label="Findings per run"
+            value={(trends.totalFindings / trends.totalRuns).toLocaleString(undefined, { maximumFractionDigits: 1 })}
+          />
+          <Stat
+            label="Explain usage"
+            value={`${Math.round((trends.explainedRuns / trends.totalRuns) * 100)}%`}
+            detail={`${trends.explainedRuns.toLocaleString()} of ${trends.totalRuns.toLocaleString()} runs`}
+          />
+        </div>
+
+        <ChartCard title="Findings over time" description="Findings per day, and the average per run. Click a day to list its runs.">
+          <ChartContainer config={timeConfig} className="aspect-auto h-64 w-full">
+            <ComposedChart data={trends.days} margin={{ left: 8, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis yAxisId="findings" allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+              <YAxis yAxisId="perRun" orientation="right" tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar
+                yAxisId="findings"
+                dataKey="findings"
+                radius={4}
+                className="cursor-pointer"
+                onClick={(day: { date: string }) => drill({ kind: "date", value: day.date })}
+              >
+                {trends.days.map((day) => (
+                  <Cell
+                    key={day.date}
+                    fill="var(--color-findings)"
+                    fillOpacity={isDrilled("date", day.date) ? 1 : 0.35}
+                  />
+                ))}
+              </Bar>
+              <Line
+                yAxisId="perRun"
+                dataKey="perRun"
+                type="monotone"
+                stroke="var(--color-perRun)"
+                strokeWidth={2}
+                dot={false}
+              />
+            </ComposedChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <div className="grid gap-4 lg:grid-cols-3">
+          <ChartCard title="Recurring finding types" description="Number of runs each type appeared in">
+            <ChartContainer config={typeConfig} className="aspect-auto h-64 w-full">
+              <BarChart data={trends.types.slice(0, TOP)} layout="vertical" margin={{ left: 8, right: 8 }}>
+                <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="key" tickLine={false} axisLine={false} width={120} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar
+                  dataKey="runs"
+                  radius={4}
+                  className="cursor-pointer"
+                  onClick={(group: { key: string }) => drill({ kind: "type", value: group.key })}
+                >
+                  {trends.types.slice(0, TOP).map((group) => (
+                    <Cell
+                      key={group.key}
+                      fill="var(--color-runs)"
+                      fillOpacity={isDrilled("type", group.key) ? 1 : 0.35}
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+          </ChartCard>
+
+          <ChartCard title="Sources with the most findings" description="Findings across all runs of a source">
+            <ChartContainer config={sourceConfig} className="aspect-auto h-64 w-full">
+              <BarChart data={trends.sources.slice(0, TOP)} layout="vertical" margin={{ left: 8, right: 8 }}>
+                <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="key" tickLine={false} axisLine={false} width={120} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar
+                  dataKey="findings"
+                  radius={4}
+                  className="cursor-pointer"
+                  onClick={(group: { key: string }) => drill({ kind: "source", value: group.key })}
+                >
+                  {trends.sources.slice(0, TOP).map((group) => (
+                    <Cell
+                      key={group.key}
+                      fill="var(--color-findings)"
+                      fillOpacity={isDrilled("source", group.key) ? 1 : 0.35}
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+          </ChartCard>
+
+          <ChartCard title="Explain usage" description="Runs created with a natural-language explanation">
+            <ChartContainer config={explainConfig} className="aspect-auto h-64 w-full">
+              <PieChart>
+                <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+                <Pie
+                  data={explainData}
+                  dataKey="runs"
+                  nameKey="key"
+                  innerRadius={50}
+                  className="cursor-pointer"
+                  onClick={(slice: { key: string }) => drill({ kind: "explain", value: slice.key === "explained" })}
+                >
+                  {explainData.map((slice) => (
+                    <Cell
+                      key={slice.key}
+                      fill={slice.fill}
+                      fillOpacity={isDrilled("explain", slice.key === "explained") ? 1 : 0.35}
+                    />
+                  ))}
+                </Pie>
+              </PieChart>
+            </ChartContainer>
+          </ChartCard>
+        </div>
+
+        <Card className="border-primary/20 shadow-lg shadow-primary/10 bg-gradient-to-br from-card to-card/50">
+          <CardHeader className="border-b border-border/50">
+            <div className="flex items-center justify-between gap-4 flex-wrap">
+              <div className="space-y-1">
+                <CardTitle className="text-xl bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+                  {drilldown ? describeDrilldown(drilldown) : "All runs in this period"}
+                </CardTitle>
+                <CardDescription>
+                  {drilled.length.toLocaleString()} run{drilled.length === 1 ? "" : "s"}, newest first
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                {drilldown && (
+                  <Button variant="ghost" size="sm" onClick={() => setDrilldown(null)}>
+                    <X className="w-4 h-4 mr-1" />
+                    Clear selection
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" asChild>
+                  <Link to={`/?${writeRunFilters(runsListFilters(range, drilldown))}`}>
+                    <ExternalLink className="w-4 h-4 mr-2" />
+                    Open in Recent Runs
+                  </Link>
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Run</TableHead>
+                  <TableHead className="text-right">Findings</TableHead>
+                  <TableHead>Top types</TableHead>
+                  <TableHead>Explain</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drilled.map((run) => (
+                  <TableRow key={run.id} className="cursor-pointer" onClick={() => navigate(`/run/${run.id}`)}>
+                    <TableCell className="whitespace-nowrap">{new Date(run.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="font-medium">
+                      <Link to={`/run/${run.id}`} className="hover:text-primary hover:underline">
+                        {runLabel(run)}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{run.findingCount.toLocaleString()}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-1 flex-wrap">
+                        {Object.entries(run.types)
+                          .sort((a, b) => b[1] - a[1])
+                          .slice(0, 3)
+                          .map(([type, count]) => (
+                            <Badge key={type} variant="outline" className="text-xs">
+                              {type} {count}
+                            </Badge>
+                          ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{run.explain ? "Yes" : "No"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border/50 bg-card/50 backdrop-blur-md sticky top-0 z-50 shadow-lg shadow-primary/5">
+        <div className="container mx-auto px-6 py-6">
+          <Button variant="ghost" onClick={() => navigate("/")} className="mb-4 hover:text-primary hover:bg-primary/10">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to runs
+          </Button>
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <h1 className="text-2xl font-bold text-foreground">Dashboard</h1>
+            <DateRangePicker value={range} onChange={setRange} />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-6 max-w-7xl">{content}</main>
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -1,35 +1,231 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useCallback, useMemo, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { useInfiniteQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { TableCell, TableHead, TableRow } from "@/components/ui/table";
+import { ToastAction } from "@/components/ui/toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import BatchQueue from "@/components/BatchQueue";
+import DataPreview from "@/components/DataPreview";
+import DeleteRunsDialog from "@/components/DeleteRunsDialog";
+import FileDropZone from "@/components/FileDropZone";
+import RunEditDialog from "@/components/RunEditDialog";
+import RunFiltersBar from "@/components/RunFiltersBar";
+import RunStatusBadge from "@/components/RunStatusBadge";
+import SortableHead from "@/components/SortableHead";
+import VirtualTable from "@/components/VirtualTable";
+import ImportSetup from "@/components/ImportSetup";
+import UploadProgress from "@/components/UploadProgress";
+import { useBatchUpload } from "@/hooks/use-batch-upload";
+import { useChunkedUpload } from "@/hooks/use-chunked-upload";
+import { useImportPlan } from "@/hooks/use-import-plan";
+import { useLiveRuns } from "@/hooks/use-live-runs";
+import { useExplainRun } from "@/hooks/use-run-assistant";
+import { useRunMutations } from "@/hooks/use-run-mutations";
 import { toast } from "@/hooks/use-toast";
-import { listRuns, createRunFromRows, createRunFromFile, exportRunCsv } from "@/lib/api";
-import { FileUp, FileJson, Download, ExternalLink, Loader2 } from "lucide-react";
+import { displayName } from "@/lib/files";
+import { parseJsonRows } from "@/lib/json-rows";
+import { isRunPending, RUN_POLL_MS, runStatus } from "@/lib/run-status";
+import { clearRunFilters, DEFAULT_SORT, hasActiveFilters, matchesRunFilters, parseRunFilters, writeRunFilters, type RunFilters, type RunSortField } from "@/lib/run-filters";
+import { tableFromRows } from "@/lib/table";
+import { LARGE_FILE_BYTES, loadSheet, loadUploadHead, UPLOAD_ACCEPT, type LoadedUpload } from "@/lib/uploads";
+import { listRuns, createRunFromRows, exportRunCsv, describeError, ApiError, type Run } from "@/lib/api";
+import {
+  Archive,
+  ArchiveRestore,
+  ArrowUp,
+  BarChart3,
+  BellOff,
+  FileUp,
+  FileJson,
+  Download,
+  ExternalLink,
+  GitCompare,
+  Loader2,
+  MoreHorizontal,
+  Pencil,
+  RefreshCw,
+  Sparkles,
+  Trash2,
+} from "lucide-react";
+
+const showErrorToast = (error: unknown, onRetry?: () => void) => {
+  const { title, description } = describeError(error);
+  const canRetry = onRetry && error instanceof ApiError && error.retryable;
+  toast({
+    title,
+    description,
+    variant: "destructive",
+    action: canRetry ? (
+      <ToastAction altText="Retry" onClick={onRetry}>
+        Retry
+      </ToastAction>
+    ) : undefined,
+  });
+};
 
 const Home = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [explain, setExplain] = useState(false);
   const [file, setFile] = useState<File | null>(null);
+  const [upload, setUpload] = useState<LoadedUpload | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  // Bumped by every file or sheet change, so a slow parse cannot overwrite a newer one.
+  const parseRequest = useRef(0);
   const [jsonText, setJsonText] = useState("");
   const [isCreating, setIsCreating] = useState(false);
 
-  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
-    queryKey: ["runs"],
-    queryFn: async ({ pageParam }) => {
-      return listRuns(20, pageParam);
+  const chunkedUpload = useChunkedUpload((result) => {
+    toast({ title: "Run created successfully" });
+    navigate(`/run/${result.runId}`);
+  });
+  const batch = useBatchUpload();
+
+  const fileColumns = useMemo(() => upload?.table.headers ?? [], [upload]);
+  const filePlan = useImportPlan(fileColumns);
+
+  const json = useMemo(() => {
+    if (!jsonText.trim()) return null;
+    const parsed = parseJsonRows(jsonText);
+    return { ...parsed, table: tableFromRows(parsed.rows, parsed.errors) };
+  }, [jsonText]);
+  const jsonColumns = useMemo(() => json?.table.headers ?? [], [json]);
+  const jsonPlan = useImportPlan(jsonColumns);
+
+  const filters = useMemo(() => parseRunFilters(searchParams), [searchParams]);
+  const setFilters = useCallback(
+    (next: RunFilters) => setSearchParams((prev) => writeRunFilters(next, prev), { replace: true }),
+    [setSearchParams],
+  );
+  const sort = filters.sort ?? DEFAULT_SORT.sort;
+  const order = filters.order ?? DEFAULT_SORT.order;
+  const handleSort = (field: RunSortField) => {
+    setFilters({ ...filters, sort: field, order: field === sort && order === "desc" ? "asc" : "desc" });
+  };
+
+  const live = useLiveRuns();
+  const { data, isLoading, error, refetch, isRefetching, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["runs", filters],
+    queryFn: async ({ pageParam, signal }) => {
+      return listRuns(20, pageParam, filters, signal);
     },
     getNextPageParam: (lastPage) => lastPage.nextCursor,
     initialPageParam: undefined as string | undefined,
+    // Without live updates, keep polling while any loaded run is still queued or processing, so its badge moves on.
+    refetchInterval: (query) =>
+      live.status !== "live" && query.state.data?.pages.some((page) => page.runs.some(isRunPending)) ? RUN_POLL_MS : false,
   });
 
-  const runs = data?.pages.flatMap(page => page.runs) || [];
+  const runs = useMemo(() => data?.pages.flatMap((page) => page.runs) ?? [], [data]);
+  // Runs a refetch already brought in, e.g. after an upload, no longer count as new, nor do runs the filters hide.
+  const newRunCount = live.newRuns.filter(
+    (newRun) => !runs.some((run) => run.id === newRun.id) && matchesRunFilters(newRun, filters),
+  ).length;
+  const [shownNewRuns, setShownNewRuns] = useState(0);
+  const showNewRuns = () => {
+    live.showNewRuns();
+    setShownNewRuns((count) => count + 1);
+  };
+
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const { update, remove } = useRunMutations();
+  const { explain: explainRun, pending: explaining } = useExplainRun();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [editing, setEditing] = useState<Run | null>(null);
+  const [deleting, setDeleting] = useState<string[]>([]);
+
+  // Only runs on screen count as selected, so a changed filter cannot act on hidden rows.
+  const selected = runs.filter((run) => selectedIds.includes(run.id));
+  const allSelected = runs.length > 0 && selected.length === runs.length;
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((selectedId) => selectedId !== id)));
+  };
+  const setArchived = (ids: string[], archived: boolean) => {
+    update.mutate({ ids, changes: { archived } });
+    setSelectedIds((prev) => prev.filter((id) => !ids.includes(id)));
+  };
+  // Runs still being analyzed, or that failed, have no findings to compare.
+  const canCompare = selected.length === 2 && selected.every((run) => runStatus(run) === "completed");
+  const handleCompare = () => {
+    // The older run is the baseline, whichever order they were picked in.
+    const [base, next] = [...selected].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    navigate(`/compare?${new URLSearchParams({ a: base.id, b: next.id })}`);
+  };
+  const handleDelete = () => {
+    remove.mutate(deleting);
+    setSelectedIds((prev) => prev.filter((id) => !deleting.includes(id)));
+    setDeleting([]);
+  };
+
+  const handleFileChange = async (selected: File | null) => {
+    const request = ++parseRequest.current;
+    setFile(selected);
+    setUpload(null);
+    if (!selected) {
+      setIsParsing(false);
+      return;
+    }
+
+    setIsParsing(true);
+    try {
+      const loaded = await loadUploadHead(selected);
+      if (request === parseRequest.current) setUpload(loaded);
+    } catch (error) {
+      if (request !== parseRequest.current) return;
+      toast({
+        title: "Could not read file",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      if (request === parseRequest.current) setIsParsing(false);
+    }
+  };
+
+  const handleFilesDropped = (files: File[]) => {
+    if (files.length === 1) {
+      batch.reset();
+      handleFileChange(files[0]);
+      return;
+    }
+    handleFileChange(null);
+    batch.start(files, explain);
+  };
+
+  const handleSheetChange = async (sheet: string) => {
+    if (!upload?.workbook) return;
+    const request = ++parseRequest.current;
+    setIsParsing(true);
+    try {
+      const loaded = await loadSheet(upload.workbook, sheet);
+      if (request === parseRequest.current) setUpload(loaded);
+    } catch (error) {
+      if (request !== parseRequest.current) return;
+      toast({
+        title: "Could not read sheet",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      if (request === parseRequest.current) setIsParsing(false);
+    }
+  };
 
   const handleFileUpload = async () => {
     if (!file) {
@@ -37,17 +233,19 @@ const Home = () => {
       return;
     }
 
+    if (upload.partial || file.size > LARGE_FILE_BYTES) {
+      chunkedUpload.start(file, { explain, source: displayName(file), sheet: upload.sheet, ...filePlan.serverOptions });
+      return;
+    }
+
     setIsCreating(true);
     try {
-      const result = await createRunFromFile(file, explain);
+      const rows = filePlan.buildRows(upload.rows);
+      const result = await createRunFromRows(rows, explain, displayName(file));
       toast({ title: "Run created successfully" });
       navigate(`/run/${result.runId}`);
     } catch (error) {
-      toast({
-        title: "Failed to create run",
-        description: error instanceof Error ? error.message : "Unknown error",
-        variant: "destructive",
-      });
+      showErrorToast(error, handleFileUpload);
     } finally {
       setIsCreating(false);
     }
@@ -59,22 +257,24 @@ const Home = () => {
       return;
     }
 
-    try {
-      const rows = JSON.parse(jsonText);
-      if (!Array.isArray(rows)) {
-        throw new Error("JSON must be an array of rows");
-      }
+    if (json.errors.length > 0) {
+      const [first] = json.errors;
+      toast({
+        title: "Invalid JSON",
+        description: `Line ${first.line}, column ${first.column}: ${first.message}`,
+        variant: "destructive",
+      });
+      return;
+    }
 
-      setIsCreating(true);
+    setIsCreating(true);
+    try {
+      const rows = jsonPlan.buildRows(json.rows);
       const result = await createRunFromRows(rows, explain);
       toast({ title: "Run created successfully" });
       navigate(`/run/${result.runId}`);
     } catch (error) {
-      toast({
-        title: "Failed to create run",
-        description: error instanceof Error ? error.message : "Invalid JSON",
-        variant: "destructive",
-      });
+      showErrorToast(error, handleJsonSubmit);
     } finally {
       setIsCreating(false);
     }
@@ -85,11 +285,7 @@ const Home = () => {
       await exportRunCsv(runId);
       toast({ title: "CSV exported successfully" });
     } catch (error) {
-      toast({
-        title: "Failed to export CSV",
-        description: error instanceof Error ? error.message : "Unknown error",
-        variant: "destructive",
-      });
+      showErrorToast(error, () => handleExport(runId));
     }
   };
 
@@ -107,6 +303,14 @@ const Home = () => {
               </h1>
               <p className="text-sm text-muted-foreground">Financial operations monitoring and analysis</p>
             </div>
+            <Button variant="ghost" onClick={() => navigate("/dashboard")} className="ml-auto hover:text-primary hover:bg-primary/10">
+              <BarChart3 className="w-4 h-4 mr-2" />
+              Dashboard
+            </Button>
+            <Button variant="ghost" onClick={() => navigate("/suppressions")} className="hover:text-primary hover:bg-primary/10">
+              <BellOff className="w-4 h-4 mr-2" />
+              Suppressions
+            </Button>
           </div>
         </div>
       </header>
@@ -117,7 +321,7 @@ const Home = () => {
             <CardTitle className="text-xl bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
               New Analysis Run
             </CardTitle>
-            <CardDescription>Upload a CSV file or paste JSON data to analyze</CardDescription>
+            <CardDescription>Upload a CSV, Excel or JSON file, or paste JSON data to analyze</CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
             <div className="flex items-center space-x-2">
@@ -138,46 +342,106 @@ const Home = () => {
               <TabsList className="grid w-full grid-cols-2">
                 <TabsTrigger value="file">
                   <FileUp className="w-4 h-4 mr-2" />
-                  Upload CSV
+                  Upload file
                 </TabsTrigger>
                 <TabsTrigger value="json">
                   <FileJson className="w-4 h-4 mr-2" />
-                  Paste JSON
+                  Paste JSON / NDJSON
                 </TabsTrigger>
               </TabsList>
               
               <TabsContent value="file" className="space-y-4">
-                <Input
-                  type="file"
-                  accept=".csv"
-                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                <FileDropZone
+                  accept={UPLOAD_ACCEPT}
+                  onFiles={handleFilesDropped}
+                  disabled={chunkedUpload.active || batch.running}
                 />
-                <Button 
-                  onClick={handleFileUpload} 
-                  disabled={!file || isCreating}
-                  className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 shadow-lg shadow-primary/20"
-                >
-                  {isCreating ? (
-                    <>
-                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      Creating run...
-                    </>
-                  ) : (
-                    "Create run from file"
-                  )}
-                </Button>
+                {batch.items.length > 0 && <BatchQueue batch={batch} />}
+                {isParsing && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Parsing file...
+                  </div>
+                )}
+                {upload?.workbook && upload.workbook.sheetNames.length > 1 && (
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm font-medium">Sheet</span>
+                    <Select value={upload.sheet} onValueChange={handleSheetChange} disabled={isParsing}>
+                      <SelectTrigger className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {upload.workbook.sheetNames.map((name) => (
+                          <SelectItem key={name} value={name}>
+                            {name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {file && upload && (
+                  <DataPreview
+                    key={`${file.name}-${file.lastModified}-${upload.sheet ?? ""}`}
+                    title={displayName(file)}
+                    detail={upload.detail}
+                    parsed={upload.table}
+                  />
+                )}
+                {upload && upload.table.errors.length === 0 && fileColumns.length > 0 && (
+                  <ImportSetup columns={fileColumns} plan={filePlan} />
+                )}
+                {chunkedUpload.status !== "idle" && <UploadProgress upload={chunkedUpload} />}
+                {batch.items.length === 0 && (
+                  <Button 
+                    onClick={handleFileUpload} 
+                    disabled={
+                      !file ||
+                      !upload ||
+                      upload.table.errors.length > 0 ||
+                      !filePlan.ready ||
+                      isCreating ||
+                      chunkedUpload.active
+                    }
+                    className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 shadow-lg shadow-primary/20"
+                  >
+                    {isCreating ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Creating run...
+                      </>
+                    ) : (
+                      "Create run from file"
+                    )}
+                  </Button>
+                )}
               </TabsContent>
               
               <TabsContent value="json" className="space-y-4">
                 <Textarea
-                  placeholder='[{"col1": "value1", "col2": "value2"}, ...]'
+                  placeholder={'[{"col1": "value1", "col2": "value2"}, ...]\n\nor one object per line (JSON Lines)'}
                   value={jsonText}
                   onChange={(e) => setJsonText(e.target.value)}
                   className="font-mono text-sm min-h-[200px]"
                 />
+                {json && (json.errors.length > 0 || json.rows.length > 0) && (
+                  <DataPreview
+                    title="Pasted data"
+                    detail={json.format === "array" ? "JSON array" : "JSON Lines"}
+                    parsed={json.table}
+                  />
+                )}
+                {json && json.errors.length === 0 && jsonColumns.length > 0 && (
+                  <ImportSetup columns={jsonColumns} plan={jsonPlan} />
+                )}
                 <Button 
                   onClick={handleJsonSubmit}
-                  disabled={!jsonText.trim() || isCreating}
+                  disabled={
+                    !json ||
+                    json.errors.length > 0 ||
+                    !jsonPlan.ready ||
+                    isCreating
+                  }
                   className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 shadow-lg shadow-primary/20"
                 >
                   {isCreating ? (
@@ -199,84 +463,279 @@ const Home = () => {
             <CardTitle className="text-xl bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
               Recent Runs
             </CardTitle>
-            <CardDescription>View and export your analysis runs</CardDescription>
+            <CardDescription>
+              View and export your analysis runs
+              {live.status === "live" && <> · Updating live</>}
+              {live.status === "reconnecting" && <> · Reconnecting to live updates...</>}
+            </CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4 pt-6">
+            <RunFiltersBar filters={filters} onChange={setFilters} />
+            {newRunCount > 0 && (
+              <div className="flex justify-center">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={showNewRuns}
+                  className="rounded-full border-primary/40 bg-primary/10 text-primary hover:bg-primary/20"
+                >
+                  <ArrowUp className="w-4 h-4 mr-1" />
+                  {newRunCount} new run{newRunCount === 1 ? "" : "s"}
+                </Button>
+              </div>
+            )}
             {isLoading ? (
               <div className="flex justify-center py-8">
                 <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
               </div>
+            ) : error ? (
+              <div className="flex flex-col items-center gap-3 py-8 text-center">
+                <p className="font-medium text-destructive">{describeError(error).title}</p>
+                <p className="text-sm text-muted-foreground">{describeError(error).description}</p>
+                <Button variant="outline" onClick={() => refetch()} disabled={isRefetching}>
+                  <RefreshCw className={`w-4 h-4 mr-2 ${isRefetching ? "animate-spin" : ""}`} />
+                  Retry
+                </Button>
+              </div>
             ) : runs.length === 0 ? (
-              <p className="text-center py-8 text-muted-foreground">No runs yet</p>
+              hasActiveFilters(filters) ? (
+                <div className="flex flex-col items-center gap-3 py-8 text-center">
+                  <p className="text-muted-foreground">No runs match these filters</p>
+                  <Button variant="outline" onClick={() => setFilters(clearRunFilters(filters))}>
+                    Clear filters
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-center py-8 text-muted-foreground">No runs yet</p>
+              )
             ) : (
               <>
-                <Table>
-                  <TableHeader>
+                {selected.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 rounded-lg border border-primary/30 bg-primary/5 px-4 py-2">
+                    <span className="text-sm font-medium mr-auto">{selected.length} selected</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleCompare}
+                      disabled={!canCompare}
+                      title={
+                        selected.length !== 2
+                          ? "Select exactly two runs to compare"
+                          : !canCompare
+                            ? "Both runs need to finish analysis to be compared"
+                            : undefined
+                      }
+                    >
+                      <GitCompare className="w-4 h-4 mr-1" />
+                      Compare
+                    </Button>
+                    {selected.some((run) => !run.archived) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setArchived(selected.filter((run) => !run.archived).map((run) => run.id), true)}
+                      >
+                        <Archive className="w-4 h-4 mr-1" />
+                        Archive
+                      </Button>
+                    )}
+                    {selected.some((run) => run.archived) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setArchived(selected.filter((run) => run.archived).map((run) => run.id), false)}
+                      >
+                        <ArchiveRestore className="w-4 h-4 mr-1" />
+                        Unarchive
+                      </Button>
+                    )}
+                    <Button variant="destructive" size="sm" onClick={() => setDeleting(selected.map((run) => run.id))}>
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Delete
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setSelectedIds([])}>
+                      Clear selection
+                    </Button>
+                  </div>
+                )}
+                <VirtualTable
+                  items={runs}
+                  estimateSize={() => 57}
+                  getKey={(run) => run.id}
+                  resetKey={`${writeRunFilters(filters)}#${shownNewRuns}`}
+                  onEndReached={loadMore}
+                  header={
                     <TableRow>
-                      <TableHead>Created</TableHead>
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={allSelected ? true : selected.length > 0 ? "indeterminate" : false}
+                          onCheckedChange={(checked) => setSelectedIds(checked === true ? runs.map((run) => run.id) : [])}
+                          aria-label="Select all runs"
+                        />
+                      </TableHead>
+                      <SortableHead
+                        label="Created"
+                        direction={sort === "createdAt" ? order : undefined}
+                        onSort={() => handleSort("createdAt")}
+                        className="w-48"
+                      />
                       <TableHead>Source</TableHead>
-                      <TableHead>Rows</TableHead>
-                      <TableHead>Explain</TableHead>
-                      <TableHead>Coverage</TableHead>
-                      <TableHead className="text-right">Actions</TableHead>
+                      <SortableHead
+                        label="Rows"
+                        direction={sort === "rowCount" ? order : undefined}
+                        onSort={() => handleSort("rowCount")}
+                        className="w-20"
+                      />
+                      <SortableHead
+                        label="Findings"
+                        direction={sort === "findingCount" ? order : undefined}
+                        onSort={() => handleSort("findingCount")}
+                        className="w-24"
+                      />
+                      <TableHead className="w-32">Status</TableHead>
+                      <TableHead className="w-20">Explain</TableHead>
+                      <TableHead className="w-56">Coverage</TableHead>
+                      <TableHead className="w-64 text-right">Actions</TableHead>
                     </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {runs.map((run) => (
-                      <TableRow key={run.id}>
-                        <TableCell className="font-mono text-sm">
-                          {new Date(run.createdAt).toLocaleString()}
-                        </TableCell>
-                        <TableCell>{run.source || "—"}</TableCell>
-                        <TableCell>{run.rowCount || 0}</TableCell>
-                        <TableCell>
-                          {run.explain ? (
-                            <Badge variant="secondary" className="bg-gradient-to-r from-accent/30 to-primary/30 text-accent border-accent/40">
-                              Yes
+                  }
+                  renderRow={(run, rowProps) => (
+                    <TableRow
+                      key={run.id}
+                      {...rowProps}
+                      data-state={selectedIds.includes(run.id) ? "selected" : undefined}
+                      className={run.archived ? "opacity-60" : undefined}
+                    >
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.includes(run.id)}
+                          onCheckedChange={(checked) => toggleSelected(run.id, checked === true)}
+                          aria-label={`Select run ${run.name || run.source || run.id}`}
+                        />
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {new Date(run.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        {run.name && <div className="font-medium">{run.name}</div>}
+                        <div className="flex items-center gap-2">
+                          {run.source ? (
+                            <button
+                              type="button"
+                              onClick={() => setFilters({ ...filters, source: run.source })}
+                              className={`text-left hover:text-primary hover:underline ${run.name ? "text-xs text-muted-foreground" : ""}`}
+                              title="Show only runs from this source"
+                            >
+                              {run.source}
+                            </button>
+                          ) : (
+                            !run.name && "—"
+                          )}
+                          {run.archived && (
+                            <Badge variant="outline" className="text-xs">
+                              Archived
                             </Badge>
+                          )}
+                        </div>
+                        {run.description && (
+                          <p className="text-xs text-muted-foreground truncate" title={run.description}>
+                            {run.description}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>{run.rowCount || 0}</TableCell>
+                      <TableCell>{run.findingCount ?? "—"}</TableCell>
+                      <TableCell>
+                        <RunStatusBadge run={run} />
+                      </TableCell>
+                      <TableCell>
+                        {explaining.has(run.id) ? (
+                          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                            Explaining
+                          </span>
+                        ) : run.explain ? (
+                          <Badge variant="secondary" className="bg-gradient-to-r from-accent/30 to-primary/30 text-accent border-accent/40">
+                            Yes
+                          </Badge>
+                        ) : (
+                          <span className="text-muted-foreground">No</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1 flex-wrap">
+                          {run.coverage && run.coverage.length > 0 ? (
+                            run.coverage.map((key) => (
+                              <Badge key={key} variant="outline" className="text-xs bg-primary/20 border-primary/40 text-primary">
+                                {key}
+                              </Badge>
+                            ))
                           ) : (
-                            <span className="text-muted-foreground">No</span>
+                            <span className="text-muted-foreground">—</span>
                           )}
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex gap-1 flex-wrap">
-                            {run.coverage && run.coverage.length > 0 ? (
-                              run.coverage.map((key) => (
-                                <Badge key={key} variant="outline" className="text-xs bg-primary/20 border-primary/40 text-primary">
-                                  {key}
-                                </Badge>
-                              ))
-                            ) : (
-                              <span className="text-muted-foreground">—</span>
-                            )}
-                          </div>
-                        </TableCell>
-                        <TableCell className="text-right">
-                          <div className="flex gap-2 justify-end">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => navigate(`/run/${run.id}`)}
-                              className="hover:text-primary hover:bg-primary/10"
-                            >
-                              <ExternalLink className="w-4 h-4 mr-1" />
-                              Open
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleExport(run.id)}
-                              className="hover:text-accent hover:bg-accent/10"
-                            >
-                              <Download className="w-4 h-4 mr-1" />
-                              Export
-                            </Button>
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex gap-2 justify-end">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => navigate(`/run/${run.id}`)}
+                            className="hover:text-primary hover:bg-primary/10"
+                          >
+                            <ExternalLink className="w-4 h-4 mr-1" />
+                            Open
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleExport(run.id)}
+                            disabled={runStatus(run) !== "completed"}
+                            className="hover:text-accent hover:bg-accent/10"
+                          >
+                            <Download className="w-4 h-4 mr-1" />
+                            Export
+                          </Button>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="sm" aria-label="More actions">
+                                <MoreHorizontal className="w-4 h-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onSelect={() => setEditing(run)}>
+                                <Pencil className="w-4 h-4 mr-2" />
+                                Rename
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onSelect={() => explainRun(run.id)}
+                                disabled={explaining.has(run.id) || runStatus(run) !== "completed"}
+                              >
+                                <Sparkles className="w-4 h-4 mr-2" />
+                                {run.explain ? "Explain again" : "Explain this run"}
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onSelect={() => setArchived([run.id], !run.archived)}>
+                                {run.archived ? (
+                                  <ArchiveRestore className="w-4 h-4 mr-2" />
+                                ) : (
+                                  <Archive className="w-4 h-4 mr-2" />
+                                )}
+                                {run.archived ? "Unarchive" : "Archive"}
+                              </DropdownMenuItem>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                onSelect={() => setDeleting([run.id])}
+                                className="text-destructive focus:text-destructive"
+                              >
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                />
                 
                 {hasNextPage && (
                   <div className="flex justify-center mt-4">
@@ -301,6 +760,17 @@ const Home = () => {
           </CardContent>
         </Card>
       </main>
+
+      <RunEditDialog
+        run={editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSave={(changes) => editing && update.mutate({ ids: [editing.id], changes })}
+      />
+      <DeleteRunsDialog
+        count={deleting.length}
+        onOpenChange={(open) => !open && setDeleting([])}
+        onConfirm={handleDelete}
+      />
     </div>
   );
 };
@@ -1,26 +1,55 @@
+import { useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Progress } from "@/components/ui/progress";
+import { ToastAction } from "@/components/ui/toast";
+import ExplanationCard from "@/components/ExplanationCard";
+import FindingsPanel from "@/components/FindingsPanel";
+import RunEditDialog from "@/components/RunEditDialog";
+import RunProgress from "@/components/RunProgress";
+import { useExplanationStream } from "@/hooks/use-run-assistant";
+import { useRunMutations } from "@/hooks/use-run-mutations";
 import { toast } from "@/hooks/use-toast";
-import { getRun, exportRunCsv } from "@/lib/api";
-import { ArrowLeft, Download, Loader2, Sparkles } from "lucide-react";
+import { getRun, exportRunCsv, describeError, ApiError, ContractError } from "@/lib/api";
+import { formatTotals, sumImpact } from "@/lib/findings";
+import { isRunPending, RUN_POLL_MS, runStatus } from "@/lib/run-status";
+import { FINDING_STATUSES } from "@/lib/schemas";
+import { isSuppressed } from "@/lib/suppressions";
+import { CLOSED_STATUSES, countByStatus, STATUS_LABELS } from "@/lib/triage";
+import { ArrowLeft, Download, Loader2, Pencil, RefreshCw, Sparkles } from "lucide-react";
 
 const RunDetail = () => {
   const { runId } = useParams<{ runId: string }>();
   const navigate = useNavigate();
 
-  const { data, isLoading, error } = useQuery({
+  const { data, isLoading, error, refetch, isRefetching } = useQuery({
     queryKey: ["run", runId],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       if (!runId) throw new Error("No run ID provided");
-      return getRun(runId);
+      return getRun(runId, signal);
     },
     enabled: !!runId,
+    // Queued and processing runs are polled until the backend is done with them.
+    refetchInterval: (query) => (query.state.data && isRunPending(query.state.data.run) ? RUN_POLL_MS : false),
   });
 
   const run = data?.run;
+  const findings = run?.findings ?? [];
+  const statusCounts = countByStatus(findings);
+  const closedCount = CLOSED_STATUSES.reduce((sum, status) => sum + statusCounts[status], 0);
+  const impactTotal = formatTotals(sumImpact(findings.filter((finding) => !isSuppressed(finding))));
+  const { update } = useRunMutations();
+  const [editing, setEditing] = useState(false);
+  const explanation = useExplanationStream(runId ?? "");
+  const explaining = explanation.status === "streaming";
+
+  // The explanation card sits above the findings, so bring it into view to follow the stream.
+  const explainSelected = (positions: number[]) => {
+    explanation.start(positions);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
 
   const handleExport = async () => {
     if (!runId) return;
@@ -29,26 +58,20 @@ const RunDetail = () => {
       await exportRunCsv(runId);
       toast({ title: "CSV exported successfully" });
     } catch (error) {
+      const { title, description } = describeError(error);
       toast({
-        title: "Failed to export CSV",
-        description: error instanceof Error ? error.message : "Unknown error",
+        title,
+        description,
         variant: "destructive",
+        action: error instanceof ApiError && error.retryable ? (
+          <ToastAction altText="Retry" onClick={handleExport}>
+            Retry
+          </ToastAction>
+        ) : undefined,
       });
     }
   };
 
-  const formatJson = (obj: any): string => {
-    try {
-      if (typeof obj === "string") {
-        const parsed = JSON.parse(obj);
-        return JSON.stringify(parsed, null, 2);
-      }
-      return JSON.stringify(obj, null, 2);
-    } catch {
-      return String(obj);
-    }
-  };
-
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -58,6 +81,9 @@ const RunDetail = () => {
   }
 
   if (error || !run) {
+    const { title, description } = error ? describeError(error) : { title: "Error Loading Run", description: "Failed to load run details" };
+    const canRetry = !(error instanceof ApiError) || error.retryable;
+
     return (
       <div className="min-h-screen bg-background">
         <header className="border-b border-border/50 bg-card/50 backdrop-blur-md">
@@ -66,15 +92,28 @@ const RunDetail = () => {
               <ArrowLeft className="w-4 h-4 mr-2" />
               Back
             </Button>
-            <h1 className="text-2xl font-bold text-destructive">Error Loading Run</h1>
+            <h1 className="text-2xl font-bold text-destructive">{title}</h1>
           </div>
         </header>
         <main className="container mx-auto px-6 py-8">
           <Card>
-            <CardContent className="pt-6">
-              <p className="text-muted-foreground">
-                {error instanceof Error ? error.message : "Failed to load run details"}
-              </p>
+            <CardContent className="pt-6 space-y-4">
+              <p className="text-muted-foreground">{description}</p>
+              {error instanceof ContractError && error.issues.length > 1 && (
+                <ul className="text-xs font-mono text-muted-foreground list-disc pl-5 space-y-1">
+                  {error.issues.map((issue, idx) => (
+                    <li key={idx}>
+                      {issue.path || "(root)"}: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {canRetry && (
+                <Button variant="outline" onClick={() => refetch()} disabled={isRefetching}>
+                  <RefreshCw className={`w-4 h-4 mr-2 ${isRefetching ? "animate-spin" : ""}`} />
+                  Retry
+                </Button>
+              )}
             </CardContent>
           </Card>
         </main>
@@ -83,6 +122,7 @@ const RunDetail = () => {
   }
 
   const shortId = run.id.substring(0, 8);
+  const completed = runStatus(run) === "completed";
 
   return (
     <div className="min-h-screen bg-background">
@@ -95,84 +135,79 @@ const RunDetail = () => {
           <div className="flex items-center justify-between flex-wrap gap-4">
             <div>
               <h1 className="text-2xl font-bold text-foreground">
-                Run <span className="font-mono text-primary bg-gradient-to-r from-primary/20 to-accent/20 px-3 py-1 rounded border border-primary/40 shadow-lg shadow-primary/10">{shortId}</span>
+                {run.name ? `${run.name} ` : "Run "}<span className="font-mono text-primary bg-gradient-to-r from-primary/20 to-accent/20 px-3 py-1 rounded border border-primary/40 shadow-lg shadow-primary/10">{shortId}</span>
               </h1>
               <p className="text-sm text-muted-foreground mt-1">
                 Created {new Date(run.createdAt).toLocaleString()}
+                {run.source && <> from {run.source}</>}
+                {run.archived && <> · Archived</>}
               </p>
+              {run.description && <p className="text-sm mt-2 max-w-2xl whitespace-pre-wrap">{run.description}</p>}
             </div>
-            <Button onClick={handleExport} className="bg-gradient-to-r from-primary to-accent hover:opacity-90 shadow-lg shadow-primary/20">
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => explanation.start()} disabled={explaining || !completed}>
+                {explaining ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+                {explaining ? "Explaining..." : "Explain this run"}
+              </Button>
+              <Button variant="outline" onClick={() => setEditing(true)}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Edit
+              </Button>
+              <Button onClick={handleExport} disabled={!completed} className="bg-gradient-to-r from-primary to-accent hover:opacity-90 shadow-lg shadow-primary/20">
               <Download className="w-4 h-4 mr-2" />
-              Export CSV
-            </Button>
+                Export CSV
+              </Button>
+            </div>
           </div>
         </div>
       </header>
 
+      <RunEditDialog
+        run={editing ? run : null}
+        onOpenChange={setEditing}
+        onSave={(changes) => update.mutate({ ids: [run.id], changes })}
+      />
+
       <main className="container mx-auto px-6 py-8 space-y-6 max-w-7xl">
-        {run.explain && run.explanation && (
-          <Card className="border-accent/40 bg-gradient-to-br from-accent/20 via-accent/10 to-primary/10 shadow-lg shadow-accent/20">
-            <CardHeader className="border-b border-accent/30">
-              <CardTitle className="flex items-center gap-2 bg-gradient-to-r from-accent to-primary bg-clip-text text-transparent">
-                <Sparkles className="w-5 h-5 text-accent" />
-                AI Explanation
+        {!completed && <RunProgress run={run} />}
+
+        {completed && (run.explain || explanation.status !== "idle") && (
+          <ExplanationCard run={run} explanation={explanation} />
+        )}
+
+        {completed && (
+          <Card className="border-primary/20 shadow-lg shadow-primary/10 bg-gradient-to-br from-card to-card/50">
+            <CardHeader className="space-y-2 border-b border-border/50">
+              <CardTitle className="text-xl bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+                Findings
               </CardTitle>
-              <CardDescription>Natural language summary of findings</CardDescription>
+              <CardDescription>
+                {findings.length} issue{findings.length !== 1 ? "s" : ""} detected
+                {impactTotal && <> · {impactTotal} estimated impact</>}
+              </CardDescription>
+              {findings.length > 0 && (
+                <div className="space-y-2 pt-2">
+                  <div className="flex items-center gap-3">
+                    <Progress value={(closedCount / findings.length) * 100} className="h-2 flex-1" />
+                    <span className="text-sm text-muted-foreground whitespace-nowrap">
+                      {closedCount} of {findings.length} closed
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                    {FINDING_STATUSES.map((status) => (
+                      <span key={status}>
+                        {STATUS_LABELS[status]}: <span className="font-medium text-foreground">{statusCounts[status]}</span>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
             </CardHeader>
             <CardContent className="pt-6">
-              <p className="text-foreground whitespace-pre-wrap leading-relaxed">{run.explanation}</p>
+              <FindingsPanel runId={run.id} findings={findings} onExplain={explainSelected} />
             </CardContent>
           </Card>
         )}
-
-        <Card className="border-primary/20 shadow-lg shadow-primary/10 bg-gradient-to-br from-card to-card/50">
-          <CardHeader className="space-y-2 border-b border-border/50">
-            <CardTitle className="text-xl bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
-              Findings
-            </CardTitle>
-            <CardDescription>
-              {run.findings?.length || 0} issue{run.findings?.length !== 1 ? "s" : ""} detected
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            {!run.findings || run.findings.length === 0 ? (
-              <p className="text-center py-8 text-muted-foreground">No findings</p>
-            ) : (
-              <div className="overflow-x-auto">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead className="w-16">Index</TableHead>
-                      <TableHead>Type</TableHead>
-                      <TableHead>Reason</TableHead>
-                      <TableHead>Row Data</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {run.findings.map((finding, idx) => (
-                      <TableRow key={idx}>
-                        <TableCell className="font-mono text-sm">
-                          {finding.index ?? idx}
-                        </TableCell>
-                        <TableCell className="font-medium">{finding.type}</TableCell>
-                        <TableCell>{finding.reason}</TableCell>
-                        <TableCell>
-                          {finding.row ? (
-                            <pre className="text-xs font-mono bg-gradient-to-br from-muted/50 to-muted/30 p-3 rounded-lg border border-primary/30 max-w-md overflow-x-auto">
-                              {formatJson(finding.row)}
-                            </pre>
-                          ) : (
-                            <span className="text-muted-foreground">—</span>
-                          )}
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
-            )}
-          </CardContent>
-        </Card>
       </main>
     </div>
   );
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import SuppressionDialog from "@/components/SuppressionDialog";
+import { useSuppressionMutations, useSuppressions } from "@/hooks/use-suppressions";
+import { describeError, ApiError, type Suppression } from "@/lib/api";
+import { describeMatch, draftFromSuppression, isExpired, type SuppressionDraft } from "@/lib/suppressions";
+import { ArrowLeft, Loader2, Pencil, RefreshCw, Trash2 } from "lucide-react";
+
+const Suppressions = () => {
+  const navigate = useNavigate();
+  const { data, isLoading, error, refetch, isRefetching } = useSuppressions();
+  const { update, remove } = useSuppressionMutations();
+  const [editing, setEditing] = useState<SuppressionDraft | null>(null);
+  const [deleting, setDeleting] = useState<Suppression | null>(null);
+
+  const suppressions = data?.suppressions ?? [];
+
+  let content;
+  if (isLoading) {
+    content = (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  } else if (error) {
+    const { title, description } = describeError(error);
+    const canRetry = !(error instanceof ApiError) || error.retryable;
+    content = (
+      <div className="space-y-4">
+        <p className="font-medium text-destructive">{title}</p>
+        <p className="text-muted-foreground">{description}</p>
+        {canRetry && (
+          <Button variant="outline" onClick={() => refetch()} disabled={isRefetching}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isRefetching ? "animate-spin" : ""}`} />
+            Retry
+          </Button>
+        )}
+      </div>
+    );
+  } else if (suppressions.length === 0) {
+    content = (
+      <p className="text-center py-8 text-muted-foreground">
+        No suppressions yet. Use Suppress on a finding in a run to hide findings like it.
+      </p>
+    );
+  } else {
+    content = (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Type</TableHead>
+            <TableHead>Match</TableHead>
+            <TableHead>Reason</TableHead>
+            <TableHead>Expires</TableHead>
+            <TableHead className="text-right">Hidden</TableHead>
+            <TableHead>Created</TableHead>
+            <TableHead className="w-24">
+              <span className="sr-only">Actions</span>
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {suppressions.map((rule) => {
+            const expired = isExpired(rule);
+            return (
+              <TableRow key={rule.id} className={expired ? "opacity-60" : undefined}>
+                <TableCell>
+                  <Badge variant="outline">{rule.type}</Badge>
+                </TableCell>
+                <TableCell className="font-mono text-xs">{describeMatch(rule.match)}</TableCell>
+                <TableCell className="text-sm">{rule.reason || <span className="text-muted-foreground">—</span>}</TableCell>
+                <TableCell className="text-sm whitespace-nowrap">
+                  {rule.expiresAt ? (
+                    <>
+                      {new Date(Date.parse(rule.expiresAt) - 1).toLocaleDateString()}
+                      {expired && (
+                        <Badge variant="secondary" className="ml-2">
+                          Expired
+                        </Badge>
+                      )}
+                    </>
+                  ) : (
+                    <span className="text-muted-foreground">Never</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right font-mono">{(rule.hits ?? 0).toLocaleString()}</TableCell>
+                <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                  {new Date(rule.createdAt).toLocaleDateString()}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditing(draftFromSuppression(rule))}
+                      aria-label="Edit suppression"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDeleting(rule)}
+                      aria-label="Delete suppression"
+                      className="hover:text-destructive"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border/50 bg-card/50 backdrop-blur-md sticky top-0 z-50 shadow-lg shadow-primary/5">
+        <div className="container mx-auto px-6 py-6">
+          <Button variant="ghost" onClick={() => navigate("/")} className="mb-4 hover:text-primary hover:bg-primary/10">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to runs
+          </Button>
+          <h1 className="text-2xl font-bold text-foreground">Suppressions</h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 max-w-7xl">
+        <Card className="border-primary/20 shadow-lg shadow-primary/10 bg-gradient-to-br from-card to-card/50">
+          <CardHeader className="space-y-2 border-b border-border/50">
+            <CardTitle className="text-xl bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+              Suppression rules
+            </CardTitle>
+            <CardDescription>
+              Findings matching a rule are hidden in every run. Hidden counts findings across all runs.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6">{content}</CardContent>
+        </Card>
+      </main>
+
+      <SuppressionDialog
+        draft={editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSave={(input) => editing?.id && update.mutate({ id: editing.id, input })}
+      />
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this suppression?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The {(deleting?.hits ?? 0).toLocaleString()} finding{deleting?.hits === 1 ? "" : "s"} it hides will show up
+              again in their runs.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && remove.mutate(deleting.id)}
+              className={buttonVariants({ variant: "destructive" })}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Suppressions;
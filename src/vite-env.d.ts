@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_WATCHTOWER_SECRET?: string;
+  /** Set to "true" to answer every API call from the in-browser mock backend. */
+  readonly VITE_MOCK_API?: string;
+  /** Share (0..1) of upload chunks the mock backend drops, to test resuming. */
+  readonly VITE_MOCK_UPLOAD_FAILURE_RATE?: string;
+  /** Share (0..1) of runs whose analysis the mock backend fails, to test the failed state. */
+  readonly VITE_MOCK_RUN_FAILURE_RATE?: string;
+  /** Milliseconds between runs the mock backend creates on its own while the runs list is live, to test live updates. */
+  readonly VITE_MOCK_TEAMMATE_RUN_MS?: string;
+}